@@ -1,9 +1,29 @@
-import React, { useState, Suspense, useCallback, useEffect } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
-import { EffectComposer, Bloom } from '@react-three/postprocessing';
-import ParticleScene from './components/ParticleScene';
-import { Settings, RotateCcw } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import { RootState } from '@react-three/fiber';
+import ParticleMorph from './components/ParticleMorph';
+import SequencePanel from './components/SequencePanel';
+import ExportPanel from './components/ExportPanel';
+import PresetManager from './components/PresetManager';
+import StatsOverlay from './components/StatsOverlay';
+import EffectsPanel from './components/EffectsPanel';
+import { useSequencePlayer } from './hooks/useSequencePlayer';
+import { useAudioInput } from './hooks/useAudioInput';
+import { usePerformanceGovernor } from './hooks/usePerformanceGovernor';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { useRemoteDisplay } from './hooks/useRemote';
+import { Settings, RotateCcw, Type, Image as ImageIcon, Box, Upload, Clapperboard, Film, Dices, Mic, Music } from 'lucide-react';
+import { AssignmentStrategy, AudioSettings, ColorMode, EffectSettings, Extrusion, FrameClock, ImageSampleOptions, Look, MeshSettings, MorphState, ParticleGeometry, PhysicsSettings, PointCloud, RemoteCommand, RemoteState, SceneConfig, ScenePreset, Sequence, SequenceStep, ShapeKind, StaggerPattern, StaggerSettings, TextLayout, TrailSettings, TransitionTiming } from './types';
+import { createSequence, createStep } from './utils/sequence';
+import { randomSeed } from './utils/random';
+import { configFromHash, configToHash, loadLooks, loadPresets, saveLooks, savePresets, DEFAULT_SCENE_CONFIG, MIN_PARTICLES, MAX_PARTICLES } from './utils/sceneConfig';
+import { loadImageFile, loadSvgImage, loadLayoutFont, registerFontFile, DEFAULT_TEXT_LAYOUT } from './utils/particleUtils';
+import { MAX_TRAIL_LENGTH } from './utils/trails';
+import { isPointCloudFile, loadPointCloudFile, POINT_CLOUD_EXTENSIONS } from './utils/pointCloud';
+import { EASING_NAMES } from './utils/easing';
+import { MAX_STAGGER } from './utils/stagger';
+import { remoteUrlFromLocation } from './utils/remote';
+import { limitGraphemes } from './utils/text';
 
 // Icons
 const IconPlay = () => (
@@ -13,49 +33,436 @@ const IconPause = () => (
   <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="6" y="4" width="4" height="16"></rect><rect x="14" y="4" width="4" height="16"></rect></svg>
 );
 
-const THEMES = [
+// Gradient themes set a second color; picking one in solid mode switches to a linear gradient
+const THEMES: { name: string; color: string; secondary?: string }[] = [
   { name: 'Cyan', color: '#4cc9f0' },
   { name: 'Neon Green', color: '#39ff14' },
   { name: 'Hot Pink', color: '#ff007f' },
   { name: 'Gold', color: '#ffd700' },
   { name: 'Electric Violet', color: '#8b5cf6' },
+  { name: 'Sunset', color: '#ff5e62', secondary: '#ffc371' },
+  { name: 'Aurora', color: '#00f5a0', secondary: '#7b2ff7' },
+  { name: 'Ocean', color: '#00c6ff', secondary: '#0047ff' },
+  { name: 'Fire', color: '#ffe259', secondary: '#ff2e00' },
 ];
 
+const COLOR_MODE_OPTIONS: { name: string; value: ColorMode }[] = [
+  { name: 'Solid', value: 'solid' },
+  { name: 'Linear', value: 'linear' },
+  { name: 'Radial', value: 'radial' },
+  { name: 'Edges', value: 'edge' },
+  { name: 'Height', value: 'height' },
+  { name: 'Rainbow', value: 'rainbow' },
+];
+
+const ASSIGNMENT_STRATEGIES = [
+  { name: 'Random', value: AssignmentStrategy.RANDOM },
+  { name: 'Nearest', value: AssignmentStrategy.NEAREST },
+  { name: 'Transport', value: AssignmentStrategy.TRANSPORT },
+];
+
+const SHAPES: { name: string; value: ShapeKind }[] = [
+  { name: 'Sphere', value: MorphState.SPHERE },
+  { name: 'Torus', value: MorphState.TORUS },
+  { name: 'Cube', value: MorphState.CUBE },
+  { name: 'Helix', value: MorphState.HELIX },
+  { name: 'Galaxy', value: MorphState.GALAXY },
+  { name: 'DNA', value: MorphState.DNA },
+  { name: 'Heart', value: MorphState.HEART },
+  { name: 'Wave', value: MorphState.WAVE },
+];
+
+const FONTS = [
+  { name: 'Arial', family: 'Arial, sans-serif' },
+  { name: 'Helvetica', family: 'Helvetica, Arial, sans-serif' },
+  { name: 'Georgia', family: 'Georgia, serif' },
+  { name: 'Times', family: '"Times New Roman", serif' },
+  { name: 'Courier', family: '"Courier New", monospace' },
+  { name: 'Impact', family: 'Impact, sans-serif' },
+  { name: 'System', family: 'system-ui, sans-serif' },
+];
+
+const DEMO_SEQUENCE: Sequence = {
+  ...createSequence([
+    createStep({ text: '3', hold: 0.5, transition: 0.6 }),
+    createStep({ text: '2', hold: 0.5, transition: 0.6 }),
+    createStep({ text: '1', hold: 0.5, transition: 0.6 }),
+    createStep({ text: 'LAUNCH', color: '#ffd700', hold: 3, transition: 1.2, easing: 'easeOutCubic' }),
+    createStep({ target: MorphState.GALAXY, text: '', color: '#8b5cf6', hold: 3, transition: 2 }),
+  ]),
+  name: 'Countdown',
+};
+
+const TEXT_ALIGNMENTS: TextLayout['align'][] = ['left', 'center', 'right'];
+
+const POINTER_FORCES: { name: string; value: PhysicsSettings['pointer'] }[] = [
+  { name: 'Repel', value: 'repel' },
+  { name: 'Attract', value: 'attract' },
+  { name: 'Off', value: 'off' },
+];
+
+const RENDERERS: { name: string; value: MeshSettings['renderer'] }[] = [
+  { name: 'Points', value: 'points' },
+  { name: 'Mesh', value: 'mesh' },
+];
+
+const MESH_GEOMETRIES: { name: string; value: ParticleGeometry }[] = [
+  { name: 'Sphere', value: 'sphere' },
+  { name: 'Cube', value: 'cube' },
+  { name: 'Tetra', value: 'tetrahedron' },
+  { name: 'Octa', value: 'octahedron' },
+  { name: 'Ico', value: 'icosahedron' },
+];
+
+// Typewriter and handwriting follow the reading order of text; shapes and images sweep
+const STAGGER_PATTERNS: { name: string; value: StaggerPattern }[] = [
+  { name: 'None', value: 'none' },
+  { name: 'Sweep', value: 'sweep' },
+  { name: 'Radial', value: 'radial' },
+  { name: 'Random', value: 'random' },
+  { name: 'Edges', value: 'edges' },
+  { name: 'Typewriter', value: 'typewriter' },
+  { name: 'Handwriting', value: 'handwriting' },
+];
+
+const TRAIL_MODES: { name: string; value: TrailSettings['mode'] }[] = [
+  { name: 'Off', value: 'off' },
+  { name: 'Lines', value: 'lines' },
+  { name: 'Afterimage', value: 'afterimage' },
+];
+
+const shapeName = (state: MorphState) => {
+  if (state === MorphState.TEXT) return 'Text';
+  if (state === MorphState.IMAGE) return 'Image';
+  if (state === MorphState.POINTS) return 'Points';
+  return SHAPES.find(s => s.value === state)?.name ?? 'Shape';
+};
+
 const App: React.FC = () => {
-  const [inputValue, setInputValue] = useState('');
-  const [activeText, setActiveText] = useState('');
+  // A shared link's scene (or the defaults) seeds the initial state
+  const [initial] = useState(() => configFromHash(window.location.hash) ?? DEFAULT_SCENE_CONFIG);
+
+  const [inputValue, setInputValue] = useState(initial.text);
+  const [activeText, setActiveText] = useState(initial.text);
   const [isPaused, setIsPaused] = useState(false);
-  const [isMorphing, setIsMorphing] = useState(false);
+  const [isMorphing, setIsMorphing] = useState(initial.isMorphing);
   
   // Settings
-  const [activeColor, setActiveColor] = useState(THEMES[0].color);
-  const [particleCount, setParticleCount] = useState(8000);
+  const [activeColor, setActiveColor] = useState(initial.color);
+  const [secondaryColor, setSecondaryColor] = useState(initial.secondaryColor);
+  const [colorMode, setColorMode] = useState<ColorMode>(initial.colorMode);
+  const [particleCount, setParticleCount] = useState(initial.particleCount);
+  const [seed, setSeed] = useState(initial.seed);
   const [showSettings, setShowSettings] = useState(false);
-  const [autoCycle, setAutoCycle] = useState(false);
+  const [autoCycle, setAutoCycle] = useState(initial.autoCycle);
+  const [assignment, setAssignment] = useState<AssignmentStrategy>(initial.assignment);
+  const [restShape, setRestShape] = useState<ShapeKind>(initial.restShape);
+  const [morphTarget, setMorphTarget] = useState<MorphState>(initial.morphTarget);
+
+  // Image mode
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [imageName, setImageName] = useState('');
+  const [imageError, setImageError] = useState('');
+  const [imageOptions, setImageOptions] = useState<ImageSampleOptions>(initial.imageOptions);
+
+  // Point cloud mode
+  const [pointCloud, setPointCloud] = useState<PointCloud | null>(null);
+  const [pointCloudName, setPointCloudName] = useState('');
+  const [pointCloudError, setPointCloudError] = useState('');
+  const snapshotRef = useRef<(() => PointCloud) | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Text layout: edits apply to the scene once their font has loaded
+  const [textLayout, setTextLayout] = useState<TextLayout>(initial.textLayout);
+  const [sceneLayout, setSceneLayout] = useState<TextLayout>(DEFAULT_TEXT_LAYOUT);
+  const [fonts, setFonts] = useState(FONTS);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const [extrusion, setExtrusion] = useState<Extrusion>(initial.extrusion);
+  const [physics, setPhysics] = useState<PhysicsSettings>(initial.physics);
+  const [trails, setTrails] = useState<TrailSettings>(initial.trails);
+  const [mesh, setMesh] = useState<MeshSettings>(initial.mesh);
+  const [transition, setTransition] = useState<TransitionTiming>(initial.transition);
+  const [stagger, setStagger] = useState<StaggerSettings>(initial.stagger);
+  const [effects, setEffects] = useState<EffectSettings>(initial.effects);
+  const [looks, setLooks] = useState<Look[]>(loadLooks);
+
+  // Live audio: the input itself isn't part of the scene config, its settings are
+  const audioInput = useAudioInput();
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(initial.audio);
+  const audioFileRef = useRef<HTMLInputElement>(null);
 
-  // Auto-cycle effect
+  // Sequence player: each step drives the same state the controls below do
+  const [sequence, setSequence] = useState<Sequence>(DEMO_SEQUENCE);
+  const [showSequence, setShowSequence] = useState(false);
+  // Each step's own timing, while the show plays
+  const [stepTransition, setStepTransition] = useState<TransitionTiming | null>(null);
+
+  const applyStep = useCallback((step: SequenceStep) => {
+    setMorphTarget(step.target);
+    if (step.target === MorphState.TEXT) setActiveText(step.text);
+    setActiveColor(step.color);
+    setAutoCycle(false);
+    setStepTransition({ duration: step.transition, easing: step.easing });
+    setIsMorphing(true);
+  }, []);
+
+  // Export: while a clock is set, it (not the wall clock) times the scene
+  const [showExport, setShowExport] = useState(false);
+  const [exportClock, setExportClock] = useState<FrameClock | null>(null);
+  const exportSequence = useRef(false);
+  const rootState = useRef<(() => RootState) | null>(null);
+
+  const player = useSequencePlayer(sequence, isPaused || exportClock !== null, applyStep);
+
+  // Performance: stats, adaptive quality and reduced motion are per device, so
+  // not part of the scene config. Exports hold the quality level they start at.
+  const [adaptive, setAdaptive] = useState(false);
+  const [targetFps, setTargetFps] = useState(60);
+  const [showStats, setShowStats] = useState(false);
+  const governor = usePerformanceGovernor(adaptive, targetFps);
+  const renderedCount = Math.round(particleCount * governor.quality.particleScale);
+
+  const systemReducedMotion = useReducedMotion();
+  const [reducedMotion, setReducedMotion] = useState(systemReducedMotion);
+  useEffect(() => setReducedMotion(systemReducedMotion), [systemReducedMotion]);
+
+  // Changes must be committed before each frame renders, hence flushSync
+  const handleExportStart = (clock: FrameClock, playSequence: boolean) => {
+    exportSequence.current = playSequence;
+    flushSync(() => {
+      setExportClock(clock);
+      if (playSequence) {
+        player.stop();
+        player.play();
+      }
+    });
+  };
+
+  const handleExportFrame = (delta: number) => {
+    if (exportSequence.current) flushSync(() => player.advance(delta));
+  };
+
+  const handleExportEnd = () => {
+    if (exportSequence.current) player.stop();
+    setExportClock(null);
+  };
+
+  // Scene config: mirrored into the URL hash and saved as presets
+  const [presets, setPresets] = useState<ScenePreset[]>(loadPresets);
+
+  const sceneConfig: SceneConfig = {
+    version: 1,
+    text: activeText,
+    isMorphing,
+    color: activeColor,
+    secondaryColor,
+    colorMode,
+    autoCycle,
+    particleCount,
+    seed,
+    assignment,
+    restShape,
+    morphTarget,
+    textLayout,
+    extrusion,
+    imageOptions,
+    physics,
+    audio: audioSettings,
+    trails,
+    effects,
+    mesh,
+    transition,
+    stagger,
+  };
+  const sceneHash = configToHash(sceneConfig);
+
+  const applyConfig = (config: SceneConfig) => {
+    player.stop();
+    setInputValue(config.text);
+    setActiveText(config.text);
+    setIsMorphing(config.isMorphing);
+    setActiveColor(config.color);
+    setSecondaryColor(config.secondaryColor);
+    setColorMode(config.colorMode);
+    setAutoCycle(config.autoCycle);
+    setParticleCount(config.particleCount);
+    setSeed(config.seed);
+    setAssignment(config.assignment);
+    setRestShape(config.restShape);
+    setMorphTarget(config.morphTarget);
+    setTextLayout(config.textLayout);
+    setExtrusion(config.extrusion);
+    setImageOptions(config.imageOptions);
+    setPhysics(config.physics);
+    setAudioSettings(config.audio);
+    setTrails(config.trails);
+    setEffects(config.effects);
+    setMesh(config.mesh);
+    setTransition(config.transition);
+    setStagger(config.stagger);
+  };
+
+  const updatePresets = (next: ScenePreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const updateLooks = (next: Look[]) => {
+    setLooks(next);
+    saveLooks(next);
+  };
+
+  // Debounced: browsers throttle rapid history updates (e.g. while dragging a slider)
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (window.location.hash !== sceneHash) history.replaceState(null, '', sceneHash);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [sceneHash]);
+
+  // Pasting another link into the address bar only changes the hash
+  const applyConfigRef = useRef(applyConfig);
+  applyConfigRef.current = applyConfig;
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    if (autoCycle) {
-      interval = setInterval(() => {
-        setActiveColor((prev) => {
-          const currentIndex = THEMES.findIndex(t => t.color === prev);
-          // If current color isn't in themes (unlikely), start at 0
-          const nextIndex = currentIndex === -1 ? 0 : (currentIndex + 1) % THEMES.length;
-          return THEMES[nextIndex].color;
-        });
-      }, 4000); // Cycle every 4 seconds
+    const onHashChange = () => {
+      const config = configFromHash(window.location.hash);
+      if (config) applyConfigRef.current(config);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Hand timing back to the scene's transition once the show stops
+  useEffect(() => {
+    if (!player.isActive) setStepTransition(null);
+  }, [player.isActive]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLayoutFont(textLayout).then(() => {
+      if (!cancelled) setSceneLayout(textLayout);
+    });
+    return () => { cancelled = true; };
+  }, [textLayout]);
+
+  const updateLayout = (patch: Partial<TextLayout>) => setTextLayout(prev => ({ ...prev, ...patch }));
+
+  const handleFontFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const family = await registerFontFile(file);
+      setFonts(prev => [...prev.filter(f => f.family !== family), { name: file.name.replace(/\.[^.]+$/, ''), family }]);
+      updateLayout({ fontFamily: family });
+    } catch {
+      // Not a font the browser can decode; keep the current family
+    }
+  };
+
+  const applyImage = useCallback(async (load: Promise<HTMLImageElement>, name: string) => {
+    try {
+      const loaded = await load;
+      setImage(loaded);
+      setImageName(name);
+      setImageError('');
+      setMorphTarget(MorphState.IMAGE);
+      setIsMorphing(true);
+    } catch (err) {
+      setImageError(err instanceof Error ? err.message : 'Could not load image');
     }
-    return () => clearInterval(interval);
-  }, [autoCycle]);
+  }, []);
+
+  const applyPointCloud = useCallback(async (file: File) => {
+    try {
+      setPointCloud(await loadPointCloudFile(file));
+      setPointCloudName(file.name);
+      setPointCloudError('');
+      setMorphTarget(MorphState.POINTS);
+      setIsMorphing(true);
+    } catch (err) {
+      setPointCloudError(err instanceof Error ? err.message : 'Could not read point cloud');
+    }
+  }, []);
+
+  // Either drop zone takes either kind of file
+  const handleFile = useCallback((file: File | undefined) => {
+    if (!file) return;
+    if (isPointCloudFile(file.name)) {
+      applyPointCloud(file);
+      return;
+    }
+    if (!file.type.startsWith('image/') && !file.name.toLowerCase().endsWith('.svg')) {
+      if (morphTarget === MorphState.POINTS) setPointCloudError('Drop a PLY, OBJ, JSON or CSV file');
+      else setImageError('Drop a PNG, JPG or SVG file');
+      return;
+    }
+    applyImage(loadImageFile(file), file.name);
+  }, [applyImage, applyPointCloud, morphTarget]);
+
+  // Paste an image or raw SVG markup while in image mode
+  useEffect(() => {
+    if (morphTarget !== MorphState.IMAGE) return;
+    const onPaste = (e: ClipboardEvent) => {
+      const file = e.clipboardData?.files[0];
+      if (file) {
+        handleFile(file);
+        return;
+      }
+      const markup = e.clipboardData?.getData('text/plain').trim() ?? '';
+      if (markup.startsWith('<svg') || markup.startsWith('<?xml')) {
+        applyImage(loadSvgImage(markup), 'Pasted SVG');
+      }
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [morphTarget, handleFile, applyImage]);
+
+  const themeIndex = THEMES.findIndex(t => t.color === activeColor && (t.secondary ?? t.color) === secondaryColor);
+
+  const applyTheme = (theme: typeof THEMES[number]) => {
+    setActiveColor(theme.color);
+    setSecondaryColor(theme.secondary ?? theme.color);
+    if (theme.secondary && colorMode === 'solid') setColorMode('linear');
+  };
+
+  // Auto-cycle effect: each theme change re-arms the timer
+  useEffect(() => {
+    if (!autoCycle) return;
+    const timer = setTimeout(() => {
+      // If current colors aren't a theme (custom), start at 0
+      const next = THEMES[themeIndex === -1 ? 0 : (themeIndex + 1) % THEMES.length];
+      setActiveColor(next.color);
+      setSecondaryColor(next.secondary ?? next.color);
+    }, 4000); // Cycle every 4 seconds
+    return () => clearTimeout(timer);
+  }, [autoCycle, themeIndex]);
 
   const handleMorph = useCallback(() => {
+    if (morphTarget === MorphState.IMAGE || morphTarget === MorphState.POINTS) {
+      if (morphTarget === MorphState.IMAGE ? image : pointCloud) setIsMorphing(true);
+      else fileInputRef.current?.click();
+      return;
+    }
+    // Shape targets don't need any text
+    if (morphTarget !== MorphState.TEXT) {
+      setIsMorphing(true);
+      return;
+    }
     const trimmed = inputValue.trim();
     if (trimmed.length > 0) {
       setActiveText(inputValue);
       setIsMorphing(true);
     }
-  }, [inputValue]);
+  }, [inputValue, morphTarget, image, pointCloud]);
+
+  // Beats step through the words of the typed text (one word: nothing to step to)
+  const handleBeat = useCallback(() => {
+    if (!audioSettings.beatAdvance || morphTarget !== MorphState.TEXT || player.isActive) return;
+    const words = inputValue.trim().split(/\s+/).filter(Boolean);
+    if (words.length < 2) return;
+    setActiveText(words[(words.indexOf(activeText) + 1) % words.length]);
+    setIsMorphing(true);
+  }, [audioSettings.beatAdvance, morphTarget, player.isActive, inputValue, activeText]);
 
   const handleReset = useCallback(() => {
     setIsMorphing(false);
@@ -63,8 +470,58 @@ const App: React.FC = () => {
     setInputValue('');
   }, []);
 
+  // Remote control: commands drive the same state as the controls here
+  const [remoteUrl] = useState(remoteUrlFromLocation);
+  const remoteState: RemoteState = {
+    text: activeText,
+    isMorphing,
+    isPaused,
+    color: activeColor,
+    particleCount,
+    sequence: { name: sequence.name, playing: player.isActive },
+  };
+
+  const handleRemoteCommand = (command: RemoteCommand) => {
+    switch (command.type) {
+      case 'morph':
+        if (command.text === undefined) {
+          handleMorph();
+        } else if (command.text.trim()) {
+          player.stop();
+          setMorphTarget(MorphState.TEXT);
+          setInputValue(command.text);
+          setActiveText(command.text);
+          setIsMorphing(true);
+        }
+        break;
+      case 'reset':
+        player.stop();
+        handleReset();
+        break;
+      case 'pause':
+        setIsPaused(command.paused);
+        break;
+      case 'color':
+        setAutoCycle(false);
+        setActiveColor(command.color);
+        if (command.secondaryColor) setSecondaryColor(command.secondaryColor);
+        break;
+      case 'particleCount':
+        setParticleCount(command.count);
+        break;
+      case 'sequence':
+        player.stop();
+        if (command.action === 'play') player.play();
+        break;
+    }
+  };
+
+  useRemoteDisplay(remoteUrl, remoteState, handleRemoteCommand);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+    // Shift+Enter inserts a line break
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
       if (isMorphing) {
           // If already morphing and user types new text and hits enter, update text
           // If input is empty, reset
@@ -80,49 +537,46 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen bg-black overflow-hidden">
       {/* 3D Canvas Layer */}
       <div className="absolute inset-0 z-0">
-        <Canvas
-          camera={{ position: [0, 0, 12], fov: 45 }}
-          gl={{ 
-            antialias: true, 
-            alpha: true, // Allow transparency to prevent potential composer clearing issues
-            powerPreference: "high-performance"
-          }}
-          dpr={[1, 2]} 
-        >
-          <color attach="background" args={['#050510']} />
-          {/* Use a fog to help blend the glow distance */}
-          <fog attach="fog" args={['#050510', 10, 25]} />
-          
-          <ambientLight intensity={0.5} />
-          
-          <Suspense fallback={null}>
-            <ParticleScene 
-              text={activeText} 
-              isMorphing={isMorphing} 
-              isPaused={isPaused} 
-              color={activeColor}
-              particleCount={particleCount}
-            />
-            <EffectComposer>
-              <Bloom 
-                luminanceThreshold={0.2} 
-                luminanceSmoothing={0.9} 
-                height={300} 
-                intensity={1.2} 
-              />
-            </EffectComposer>
-          </Suspense>
-          
-          <OrbitControls 
-            enableZoom={true} 
-            enablePan={false} 
-            rotateSpeed={0.5} 
-            minDistance={5}
-            maxDistance={20}
-          />
-        </Canvas>
+        <ParticleMorph
+          text={activeText}
+          isMorphing={isMorphing}
+          isPaused={isPaused}
+          color={activeColor}
+          secondaryColor={secondaryColor}
+          colorMode={colorMode}
+          particleCount={renderedCount}
+          assignment={assignment}
+          shape={restShape}
+          target={morphTarget}
+          image={image}
+          pointCloud={pointCloud}
+          imageOptions={imageOptions}
+          textLayout={sceneLayout}
+          extrusion={extrusion}
+          transition={stepTransition ?? transition}
+          stagger={stagger}
+          clock={exportClock}
+          seed={seed}
+          physics={physics}
+          audio={audioInput.analysis}
+          audioSettings={audioSettings}
+          onBeat={handleBeat}
+          reducedMotion={reducedMotion}
+          trails={trails}
+          effects={effects}
+          mesh={mesh}
+          dpr={[Math.min(1, governor.quality.maxDpr), governor.quality.maxDpr]}
+          bloomHeight={governor.quality.bloomHeight}
+          onStats={(adaptive || showStats) && exportClock === null ? governor.report : undefined}
+          onCreated={(state) => { rootState.current = state.get; }}
+          snapshotRef={snapshotRef}
+        />
       </div>
 
+      {showStats && (
+        <StatsOverlay stats={governor.stats} particleCount={renderedCount} level={adaptive ? governor.level : null} />
+      )}
+
       {/* Watermark */}
       <div className="absolute bottom-6 right-6 z-20 pointer-events-none opacity-40 font-mono text-[10px] tracking-[0.2em] text-white select-none">
         DESIGNED BY SHIVANSHU
@@ -143,9 +597,33 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex gap-2">
+              {/* Sequence Toggle */}
+              <button 
+                onClick={() => setShowSequence(!showSequence)}
+                className={`flex items-center justify-center w-12 h-12 rounded-full backdrop-blur border transition-all text-white ${showSequence ? 'bg-white/20 border-white/40' : 'bg-white/10 border-white/20 hover:bg-white/20'}`}
+                title="Sequence"
+              >
+                <Clapperboard size={20} />
+              </button>
+
+              {/* Export Toggle */}
+              <button 
+                onClick={() => {
+                  setShowExport(!showExport);
+                  setShowSettings(false);
+                }}
+                className={`flex items-center justify-center w-12 h-12 rounded-full backdrop-blur border transition-all text-white ${showExport ? 'bg-white/20 border-white/40' : 'bg-white/10 border-white/20 hover:bg-white/20'}`}
+                title="Export"
+              >
+                <Film size={20} />
+              </button>
+
               {/* Settings Toggle */}
               <button 
-                onClick={() => setShowSettings(!showSettings)}
+                onClick={() => {
+                  setShowSettings(!showSettings);
+                  setShowExport(false);
+                }}
                 className={`flex items-center justify-center w-12 h-12 rounded-full backdrop-blur border transition-all text-white ${showSettings ? 'bg-white/20 border-white/40' : 'bg-white/10 border-white/20 hover:bg-white/20'}`}
                 title="Settings"
               >
@@ -163,9 +641,33 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        {/* Sequence Panel (Conditional) */}
+        {showSequence && (
+            <SequencePanel
+                sequence={sequence}
+                onChange={setSequence}
+                player={player}
+                isPaused={isPaused}
+                onTogglePause={() => setIsPaused(!isPaused)}
+                shapes={SHAPES}
+            />
+        )}
+
+        {/* Export Panel (Conditional) */}
+        {showExport && (
+            <ExportPanel
+                getState={() => rootState.current?.() ?? null}
+                sequenceDuration={sequence.steps.length > 0 ? player.duration : 0}
+                onStart={handleExportStart}
+                onFrame={handleExportFrame}
+                onEnd={handleExportEnd}
+                getSnapshot={() => snapshotRef.current?.() ?? null}
+            />
+        )}
+
         {/* Settings Panel (Conditional) */}
         {showSettings && (
-            <div className="pointer-events-auto absolute top-24 right-6 bg-black/60 backdrop-blur-xl border border-white/10 p-5 rounded-xl shadow-2xl w-72 animate-in fade-in slide-in-from-top-4 duration-200 z-50">
+            <div className="pointer-events-auto absolute top-24 right-6 bg-black/60 backdrop-blur-xl border border-white/10 p-5 rounded-xl shadow-2xl w-72 max-h-[calc(100vh-8rem)] overflow-y-auto animate-in fade-in slide-in-from-top-4 duration-200 z-50">
                 <div className="mb-5">
                   <div className="flex justify-between items-center mb-3">
                     <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Theme Color</h3>
@@ -184,21 +686,52 @@ const App: React.FC = () => {
                   </div>
                   
                   <div className="flex flex-wrap gap-3">
-                      {THEMES.map((theme) => (
+                      {THEMES.map((theme, i) => (
                           <button
                               key={theme.name}
                               onClick={() => {
-                                setActiveColor(theme.color);
+                                applyTheme(theme);
                                 setAutoCycle(false); // Manually selecting disables auto cycle
                               }}
-                              className={`w-8 h-8 rounded-full border-2 transition-transform hover:scale-110 ${activeColor === theme.color ? 'border-white scale-110 shadow-[0_0_10px_rgba(255,255,255,0.5)]' : 'border-transparent'}`}
-                              style={{ backgroundColor: theme.color }}
+                              className={`w-8 h-8 rounded-full border-2 transition-transform hover:scale-110 ${themeIndex === i ? 'border-white scale-110 shadow-[0_0_10px_rgba(255,255,255,0.5)]' : 'border-transparent'}`}
+                              style={{ background: theme.secondary ? `linear-gradient(135deg, ${theme.color}, ${theme.secondary})` : theme.color }}
                               title={theme.name}
                           />
                       ))}
                   </div>
                 </div>
 
+                <div className="border-t border-white/10 pt-4 mb-5">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Color Mode</h3>
+                    {colorMode !== 'solid' && colorMode !== 'rainbow' && (
+                      <label className="flex items-center gap-2 text-[10px] text-gray-400 select-none" title="Gradient end / interior color">
+                        SECOND
+                        <input
+                          type="color"
+                          value={secondaryColor}
+                          onChange={(e) => {
+                            setSecondaryColor(e.target.value);
+                            setAutoCycle(false);
+                          }}
+                          className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                      {COLOR_MODE_OPTIONS.map((mode) => (
+                          <button
+                              key={mode.value}
+                              onClick={() => setColorMode(mode.value)}
+                              className={`text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${colorMode === mode.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                              {mode.name}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+
                 <div className="border-t border-white/10 pt-4">
                   <div className="flex justify-between items-center mb-2">
                     <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Particle Count</h3>
@@ -206,8 +739,8 @@ const App: React.FC = () => {
                   </div>
                   <input
                     type="range"
-                    min="1000"
-                    max="20000"
+                    min={MIN_PARTICLES}
+                    max={MAX_PARTICLES}
                     step="500"
                     value={particleCount}
                     onChange={(e) => setParticleCount(Number(e.target.value))}
@@ -215,8 +748,526 @@ const App: React.FC = () => {
                   />
                   <div className="flex justify-between text-[10px] text-gray-500 mt-1 font-mono">
                     <span>1k</span>
-                    <span>20k</span>
+                    <span>100k</span>
+                  </div>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Seed</h3>
+                    <button
+                      onClick={() => setSeed(randomSeed())}
+                      className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10"
+                      title="Random seed"
+                    >
+                      <Dices size={14} />
+                    </button>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={seed}
+                    onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs font-mono text-white outline-none focus:border-white/30"
+                  />
+                  <p className="text-[10px] text-gray-500 mt-1">Same seed, text and count give the same layout.</p>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Text Layout</h3>
+                    <button
+                      onClick={() => fontInputRef.current?.click()}
+                      className="text-[10px] font-mono text-gray-400 hover:text-white uppercase"
+                      title="Load a TTF, OTF or WOFF font"
+                    >
+                      + Font
+                    </button>
+                    <input
+                      ref={fontInputRef}
+                      type="file"
+                      accept=".ttf,.otf,.woff,.woff2"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleFontFile(e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </div>
+
+                  <select
+                    value={textLayout.fontFamily}
+                    onChange={(e) => updateLayout({ fontFamily: e.target.value })}
+                    className="w-full mb-3 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none"
+                  >
+                    {fonts.map((font) => (
+                      <option key={font.family} value={font.family} className="bg-black">{font.name}</option>
+                    ))}
+                  </select>
+
+                  <div className="flex gap-2 mb-3">
+                      {TEXT_ALIGNMENTS.map((align) => (
+                          <button
+                              key={align}
+                              onClick={() => updateLayout({ align })}
+                              className={`flex-1 text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${textLayout.align === align ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                              {align}
+                          </button>
+                      ))}
+                      <button
+                          onClick={() => updateLayout({ italic: !textLayout.italic })}
+                          className={`flex-1 text-[10px] font-mono italic uppercase py-1.5 rounded-lg border transition-colors ${textLayout.italic ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                      >
+                          Italic
+                      </button>
                   </div>
+
+                  {([
+                    { label: 'Weight', key: 'fontWeight', min: 100, max: 900, step: 100, format: (v: number) => String(v) },
+                    { label: 'Spacing', key: 'letterSpacing', min: -0.1, max: 0.5, step: 0.01, format: (v: number) => `${v.toFixed(2)}em` },
+                    { label: 'Line Height', key: 'lineHeight', min: 0.8, max: 2, step: 0.05, format: (v: number) => v.toFixed(2) },
+                    { label: 'Wrap Width', key: 'maxWidth', min: 0, max: 30, step: 1, format: (v: number) => v === 0 ? 'off' : `${v}em` },
+                  ] as const).map((slider) => (
+                    <div key={slider.key} className="mb-2">
+                      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                        <span className="uppercase">{slider.label}</span>
+                        <span className="text-cyan-400">{slider.format(textLayout[slider.key])}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={slider.min}
+                        max={slider.max}
+                        step={slider.step}
+                        value={textLayout[slider.key]}
+                        onChange={(e) => updateLayout({ [slider.key]: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">3D Depth</h3>
+                    <div className="flex items-center gap-2">
+                       <label htmlFor="extrude" className="text-[10px] text-gray-400 cursor-pointer select-none">{extrusion.enabled ? 'EXTRUDED' : 'FLAT'}</label>
+                       <button 
+                         id="extrude"
+                         onClick={() => setExtrusion({ ...extrusion, enabled: !extrusion.enabled })}
+                         className={`w-8 h-4 rounded-full relative transition-colors ${extrusion.enabled ? 'bg-cyan-500' : 'bg-white/20'}`}
+                       >
+                         <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${extrusion.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                       </button>
+                    </div>
+                  </div>
+
+                  {extrusion.enabled && ([
+                    { label: 'Depth', key: 'depth', min: 0.2, max: 4, step: 0.1 },
+                    { label: 'Bevel', key: 'bevel', min: 0, max: 1, step: 0.05 },
+                  ] as const).map((slider) => (
+                    <div key={slider.key} className="mb-2">
+                      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                        <span className="uppercase">{slider.label}</span>
+                        <span className="text-cyan-400">{extrusion[slider.key].toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={slider.min}
+                        max={slider.max}
+                        step={slider.step}
+                        value={extrusion[slider.key]}
+                        onChange={(e) => setExtrusion({ ...extrusion, [slider.key]: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Resting Shape</h3>
+                  <div className="grid grid-cols-4 gap-2">
+                      {SHAPES.map((shape) => (
+                          <button
+                              key={shape.value}
+                              onClick={() => setRestShape(shape.value)}
+                              className={`text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${restShape === shape.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                              {shape.name}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Morph Into</h3>
+                  <div className="grid grid-cols-4 gap-2">
+                      {[{ name: 'Text', value: MorphState.TEXT }, { name: 'Image', value: MorphState.IMAGE }, { name: 'Points', value: MorphState.POINTS }, ...SHAPES].map((option) => (
+                          <button
+                              key={option.value}
+                              onClick={() => setMorphTarget(option.value)}
+                              className={`text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${morphTarget === option.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                              {option.name}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Assignment</h3>
+                  <div className="flex gap-2">
+                      {ASSIGNMENT_STRATEGIES.map((strategy) => (
+                          <button
+                              key={strategy.value}
+                              onClick={() => setAssignment(strategy.value)}
+                              className={`flex-1 text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${assignment === strategy.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                              {strategy.name}
+                          </button>
+                      ))}
+                  </div>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Physics</h3>
+                    <div className="flex items-center gap-2">
+                       <label htmlFor="physics" className="text-[10px] text-gray-400 cursor-pointer select-none">{physics.enabled ? 'SPRINGS' : 'OFF'}</label>
+                       <button 
+                         id="physics"
+                         onClick={() => setPhysics({ ...physics, enabled: !physics.enabled })}
+                         className={`w-8 h-4 rounded-full relative transition-colors ${physics.enabled ? 'bg-cyan-500' : 'bg-white/20'}`}
+                       >
+                         <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${physics.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                       </button>
+                    </div>
+                  </div>
+
+                  {physics.enabled && (
+                    <>
+                      <div className="flex gap-2 mb-3">
+                        {POINTER_FORCES.map((force) => (
+                          <button
+                            key={force.value}
+                            onClick={() => setPhysics({ ...physics, pointer: force.value })}
+                            className={`flex-1 text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${physics.pointer === force.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                            {force.name}
+                          </button>
+                        ))}
+                      </div>
+                      {([
+                        { label: 'Stiffness', key: 'stiffness', min: 5, max: 200, step: 1 },
+                        { label: 'Damping', key: 'damping', min: 0, max: 30, step: 0.5 },
+                        { label: 'Force Radius', key: 'forceRadius', min: 0.5, max: 6, step: 0.1 },
+                      ] as const).map((slider) => (
+                        <div key={slider.key} className="mb-2">
+                          <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                            <span className="uppercase">{slider.label}</span>
+                            <span className="text-cyan-400">{physics[slider.key].toFixed(slider.step < 1 ? 1 : 0)}</span>
+                          </div>
+                          <input
+                            type="range"
+                            min={slider.min}
+                            max={slider.max}
+                            step={slider.step}
+                            value={physics[slider.key]}
+                            onChange={(e) => setPhysics({ ...physics, [slider.key]: Number(e.target.value) })}
+                            className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                          />
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Transition</h3>
+                  <div className="mb-2">
+                    <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                      <span className="uppercase">Duration</span>
+                      <span className="text-cyan-400">{transition.duration.toFixed(1)}s</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.2"
+                      max="6"
+                      step="0.1"
+                      value={transition.duration}
+                      onChange={(e) => setTransition({ ...transition, duration: Number(e.target.value) })}
+                      className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                    />
+                  </div>
+                  <select
+                    value={transition.easing}
+                    onChange={(e) => setTransition({ ...transition, easing: e.target.value as TransitionTiming['easing'] })}
+                    className="w-full mb-3 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none"
+                  >
+                    {EASING_NAMES.map((name) => (
+                      <option key={name} value={name} className="bg-black">{name}</option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-3 gap-2 mb-3">
+                    {STAGGER_PATTERNS.map((pattern) => (
+                      <button
+                        key={pattern.value}
+                        onClick={() => setStagger({ ...stagger, pattern: pattern.value })}
+                        className={`text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${stagger.pattern === pattern.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                      >
+                        {pattern.name}
+                      </button>
+                    ))}
+                  </div>
+                  {stagger.pattern !== 'none' && (
+                    <div className="mb-2">
+                      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                        <span className="uppercase">Stagger</span>
+                        <span className="text-cyan-400">{stagger.amount.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.05"
+                        max={MAX_STAGGER}
+                        step="0.05"
+                        value={stagger.amount}
+                        onChange={(e) => setStagger({ ...stagger, amount: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Renderer</h3>
+                  <div className="flex gap-2 mb-3">
+                    {RENDERERS.map((renderer) => (
+                      <button
+                        key={renderer.value}
+                        onClick={() => setMesh({ ...mesh, renderer: renderer.value })}
+                        className={`flex-1 text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${mesh.renderer === renderer.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                      >
+                        {renderer.name}
+                      </button>
+                    ))}
+                  </div>
+                  {mesh.renderer === 'mesh' && (
+                    <>
+                      <div className="grid grid-cols-3 gap-2 mb-3">
+                        {MESH_GEOMETRIES.map((geometry) => (
+                          <button
+                            key={geometry.value}
+                            onClick={() => setMesh({ ...mesh, geometry: geometry.value })}
+                            className={`text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${mesh.geometry === geometry.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                          >
+                            {geometry.name}
+                          </button>
+                        ))}
+                      </div>
+                      {([
+                        { label: 'Size', key: 'size', min: 0.03, max: 0.4, step: 0.01 },
+                        { label: 'Spin', key: 'spin', min: 0, max: 4, step: 0.1 },
+                      ] as const).map((slider) => (
+                        <div key={slider.key} className="mb-2">
+                          <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                            <span className="uppercase">{slider.label}</span>
+                            <span className="text-cyan-400">{mesh[slider.key].toFixed(2)}</span>
+                          </div>
+                          <input
+                            type="range"
+                            min={slider.min}
+                            max={slider.max}
+                            step={slider.step}
+                            value={mesh[slider.key]}
+                            onChange={(e) => setMesh({ ...mesh, [slider.key]: Number(e.target.value) })}
+                            className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                          />
+                        </div>
+                      ))}
+                      <div className="flex justify-between items-center mt-3">
+                        <label htmlFor="shadows" className="text-[10px] font-mono text-gray-400 uppercase cursor-pointer select-none">Shadows</label>
+                        <button
+                          id="shadows"
+                          onClick={() => setMesh({ ...mesh, shadows: !mesh.shadows })}
+                          className={`w-8 h-4 rounded-full relative transition-colors ${mesh.shadows ? 'bg-cyan-500' : 'bg-white/20'}`}
+                        >
+                          <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${mesh.shadows ? 'translate-x-4' : 'translate-x-0'}`} />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Trails</h3>
+                  <div className="flex gap-2 mb-3">
+                    {TRAIL_MODES.map((mode) => (
+                      <button
+                        key={mode.value}
+                        onClick={() => setTrails({ ...trails, mode: mode.value })}
+                        className={`flex-1 text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${trails.mode === mode.value ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                      >
+                        {mode.name}
+                      </button>
+                    ))}
+                  </div>
+                  {trails.mode === 'lines' && (
+                    <div className="mb-2">
+                      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                        <span className="uppercase">Length</span>
+                        <span className="text-cyan-400">{trails.length}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={2}
+                        max={MAX_TRAIL_LENGTH}
+                        step={1}
+                        value={trails.length}
+                        onChange={(e) => setTrails({ ...trails, length: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                      />
+                      {physics.enabled && (
+                        <div className="text-[10px] font-mono text-gray-500 mt-1">Line trails pause while physics is on</div>
+                      )}
+                    </div>
+                  )}
+                  {trails.mode === 'afterimage' && (
+                    <div className="mb-2">
+                      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                        <span className="uppercase">Persistence</span>
+                        <span className="text-cyan-400">{trails.persistence.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={0.5}
+                        max={0.98}
+                        step={0.01}
+                        value={trails.persistence}
+                        onChange={(e) => setTrails({ ...trails, persistence: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <EffectsPanel effects={effects} onChange={setEffects} looks={looks} onLooksChange={updateLooks} />
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Audio</h3>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={audioInput.source === 'mic' ? audioInput.stop : audioInput.startMicrophone}
+                        className={`p-1 rounded-md transition-colors ${audioInput.source === 'mic' ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+                        title={audioInput.source === 'mic' ? 'Stop microphone' : 'Use microphone'}
+                      >
+                        <Mic size={14} />
+                      </button>
+                      <button
+                        onClick={audioInput.source === 'file' ? audioInput.stop : () => audioFileRef.current?.click()}
+                        className={`p-1 rounded-md transition-colors ${audioInput.source === 'file' ? 'bg-cyan-500/20 text-cyan-300' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+                        title={audioInput.source === 'file' ? 'Stop audio file' : 'Play an audio file'}
+                      >
+                        <Music size={14} />
+                      </button>
+                      <input
+                        ref={audioFileRef}
+                        type="file"
+                        accept="audio/*"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) audioInput.playFile(file);
+                          e.target.value = '';
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  {audioInput.error && <div className="text-[10px] font-mono text-red-400 mb-2">{audioInput.error}</div>}
+                  {audioInput.source === 'file' && (
+                    <div className="text-[10px] font-mono text-gray-400 truncate mb-2">{audioInput.fileName}</div>
+                  )}
+
+                  {([
+                    { label: 'Sensitivity', key: 'sensitivity', min: 0.25, max: 5, step: 0.05 },
+                    { label: 'Displacement', key: 'displacement', min: 0, max: 2, step: 0.05 },
+                    { label: 'Pulse', key: 'pulse', min: 0, max: 1, step: 0.05 },
+                    { label: 'Bloom', key: 'bloom', min: 0, max: 4, step: 0.1 },
+                    { label: 'Color', key: 'color', min: 0, max: 1, step: 0.05 },
+                  ] as const).map((slider) => (
+                    <div key={slider.key} className="mb-2">
+                      <div className="flex justify-between text-[10px] font-mono text-gray-400 mb-1">
+                        <span className="uppercase">{slider.label}</span>
+                        <span className="text-cyan-400">{audioSettings[slider.key].toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={slider.min}
+                        max={slider.max}
+                        step={slider.step}
+                        value={audioSettings[slider.key]}
+                        onChange={(e) => setAudioSettings({ ...audioSettings, [slider.key]: Number(e.target.value) })}
+                        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                      />
+                    </div>
+                  ))}
+
+                  <div className="flex items-center justify-between mt-3">
+                    <label htmlFor="beat-advance" className="text-[10px] text-gray-400 cursor-pointer select-none" title="Each beat morphs into the next word of the text">BEAT → NEXT WORD</label>
+                    <button
+                      id="beat-advance"
+                      onClick={() => setAudioSettings({ ...audioSettings, beatAdvance: !audioSettings.beatAdvance })}
+                      className={`w-8 h-4 rounded-full relative transition-colors ${audioSettings.beatAdvance ? 'bg-cyan-500' : 'bg-white/20'}`}
+                    >
+                      <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${audioSettings.beatAdvance ? 'translate-x-4' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Performance</h3>
+                  {([
+                    { id: 'adaptive', label: 'ADAPTIVE QUALITY', value: adaptive, toggle: () => setAdaptive(!adaptive) },
+                    { id: 'stats', label: 'STATS OVERLAY', value: showStats, toggle: () => setShowStats(!showStats) },
+                    { id: 'reduced-motion', label: 'REDUCE MOTION', value: reducedMotion, toggle: () => setReducedMotion(!reducedMotion) },
+                  ]).map((option) => (
+                    <div key={option.id} className="flex items-center justify-between mb-2">
+                      <label htmlFor={option.id} className="text-[10px] text-gray-400 cursor-pointer select-none">{option.label}</label>
+                      <button
+                        id={option.id}
+                        onClick={option.toggle}
+                        className={`w-8 h-4 rounded-full relative transition-colors ${option.value ? 'bg-cyan-500' : 'bg-white/20'}`}
+                      >
+                        <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${option.value ? 'translate-x-4' : 'translate-x-0'}`} />
+                      </button>
+                    </div>
+                  ))}
+                  {adaptive && (
+                    <div className="flex gap-2 mt-3">
+                      {[30, 60].map((fps) => (
+                        <button
+                          key={fps}
+                          onClick={() => setTargetFps(fps)}
+                          className={`flex-1 text-[10px] font-mono uppercase py-1.5 rounded-lg border transition-colors ${targetFps === fps ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                        >
+                          Aim {fps} fps
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="border-t border-white/10 pt-4 mt-4">
+                  <PresetManager
+                    presets={presets}
+                    onChange={updatePresets}
+                    config={sceneConfig}
+                    onApply={applyConfig}
+                  />
                 </div>
             </div>
         )}
@@ -224,21 +1275,88 @@ const App: React.FC = () => {
         {/* Bottom Controls */}
         <div className="w-full max-w-lg mx-auto pointer-events-auto pb-4 sm:pb-8">
            <div className={`glass-panel p-2 rounded-2xl bg-black/40 backdrop-blur-xl border border-white/10 shadow-2xl transition-all duration-300 flex gap-2 items-center focus-within:border-white/30 focus-within:shadow-cyan-900/40 ${isMorphing ? 'shadow-purple-900/20' : 'shadow-cyan-900/20'}`}>
-             <input
-               type="text"
-               value={inputValue}
-               onChange={(e) => setInputValue(e.target.value)}
-               onKeyDown={handleKeyDown}
-               placeholder={isMorphing ? "Type to change..." : "Type something..."}
-               maxLength={20}
-               className="flex-1 bg-transparent border-none outline-none text-white px-4 py-3 text-lg placeholder-gray-500 font-medium"
-             />
+             {/* Text / Image / Point cloud mode switch */}
+             <div className="flex flex-col gap-1 pl-1">
+               <button
+                 onClick={() => setMorphTarget(MorphState.TEXT)}
+                 className={`p-1 rounded-md transition-colors ${morphTarget === MorphState.TEXT ? 'bg-white/20 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                 title="Text mode"
+               >
+                 <Type size={14} />
+               </button>
+               <button
+                 onClick={() => setMorphTarget(MorphState.IMAGE)}
+                 className={`p-1 rounded-md transition-colors ${morphTarget === MorphState.IMAGE ? 'bg-white/20 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                 title="Image mode"
+               >
+                 <ImageIcon size={14} />
+               </button>
+               <button
+                 onClick={() => setMorphTarget(MorphState.POINTS)}
+                 className={`p-1 rounded-md transition-colors ${morphTarget === MorphState.POINTS ? 'bg-white/20 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                 title="Point cloud mode"
+               >
+                 <Box size={14} />
+               </button>
+             </div>
+
+             {morphTarget === MorphState.IMAGE || morphTarget === MorphState.POINTS ? (
+               <div
+                 onClick={() => fileInputRef.current?.click()}
+                 onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                 onDragLeave={() => setIsDragging(false)}
+                 onDrop={(e) => {
+                   e.preventDefault();
+                   setIsDragging(false);
+                   handleFile(e.dataTransfer.files[0]);
+                 }}
+                 className={`flex-1 flex items-center gap-3 px-4 py-2 rounded-xl border border-dashed cursor-pointer transition-colors ${isDragging ? 'border-cyan-400 bg-cyan-400/10' : 'border-white/20 hover:border-white/40'}`}
+               >
+                 <Upload size={18} className="text-gray-400 shrink-0" />
+                 <div className="min-w-0">
+                   {morphTarget === MorphState.IMAGE ? (
+                     <>
+                       <div className="text-sm text-white truncate">{imageName || 'Drop PNG, JPG or SVG'}</div>
+                       <div className={`text-[10px] font-mono ${imageError ? 'text-red-400' : 'text-gray-500'}`}>
+                         {imageError || 'or click to browse, or paste SVG markup'}
+                       </div>
+                     </>
+                   ) : (
+                     <>
+                       <div className="text-sm text-white truncate">{pointCloudName || 'Drop PLY, OBJ, JSON or CSV'}</div>
+                       <div className={`text-[10px] font-mono ${pointCloudError ? 'text-red-400' : 'text-gray-500'}`}>
+                         {pointCloudError || 'or click to browse for a point cloud'}
+                       </div>
+                     </>
+                   )}
+                 </div>
+                 <input
+                   ref={fileInputRef}
+                   type="file"
+                   accept={morphTarget === MorphState.IMAGE ? 'image/png,image/jpeg,image/svg+xml,.svg' : POINT_CLOUD_EXTENSIONS.join(',')}
+                   className="hidden"
+                   onChange={(e) => {
+                     handleFile(e.target.files?.[0]);
+                     e.target.value = '';
+                   }}
+                 />
+               </div>
+             ) : (
+               <textarea
+                 value={inputValue}
+                 onChange={(e) => setInputValue(limitGraphemes(e.target.value))}
+                 onKeyDown={handleKeyDown}
+                 placeholder={isMorphing ? "Type to change..." : "Type something..."}
+                 rows={Math.min(4, inputValue.split('\n').length)}
+                 className="flex-1 bg-transparent border-none outline-none resize-none text-white px-4 py-3 text-lg placeholder-gray-500 font-medium"
+               />
+             )}
              
              {isMorphing ? (
                  <button
                    onClick={handleReset}
                    className="bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-xl transition-all flex items-center gap-2 group border border-white/10"
-                   title="Reset to Sphere"
+                   title={`Reset to ${shapeName(restShape)}`}
                  >
                    <RotateCcw size={18} className="group-hover:-rotate-180 transition-transform duration-500" />
                  </button>
@@ -252,8 +1370,30 @@ const App: React.FC = () => {
              )}
            </div>
            
+           {morphTarget === MorphState.IMAGE && (
+             <div className="flex justify-center gap-2 mt-3 text-[10px] font-mono uppercase">
+               {(['alpha', 'luminance'] as const).map((threshold) => (
+                 <button
+                   key={threshold}
+                   onClick={() => setImageOptions({ ...imageOptions, threshold })}
+                   className={`px-2 py-1 rounded-md border transition-colors ${imageOptions.threshold === threshold ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+                 >
+                   {threshold}
+                 </button>
+               ))}
+               <button
+                 onClick={() => setImageOptions({ ...imageOptions, invert: !imageOptions.invert })}
+                 disabled={imageOptions.threshold !== 'luminance'}
+                 className={`px-2 py-1 rounded-md border transition-colors disabled:opacity-30 ${imageOptions.invert ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+               >
+                 Invert
+               </button>
+             </div>
+           )}
+
            <div className="text-center mt-3 opacity-60 text-xs font-mono">
-             {isPaused ? "ANIMATION PAUSED" : `${isMorphing ? "TEXT MODE" : "SPHERE MODE"}`}
+             {isPaused ? "ANIMATION PAUSED" : `${shapeName(isMorphing ? morphTarget : restShape).toUpperCase()} MODE`}
+             {player.isActive && ` · STEP ${player.stepIndex + 1}/${sequence.steps.length}`}
            </div>
         </div>
       </div>
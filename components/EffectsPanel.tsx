@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { EffectSettings, Look } from '../types';
+import { BUILT_IN_LOOKS } from '../utils/effects';
+
+interface EffectsPanelProps {
+  effects: EffectSettings;
+  onChange: (effects: EffectSettings) => void;
+  looks: Look[];                           // Saved looks, after the built-in ones
+  onLooksChange: (looks: Look[]) => void;
+}
+
+interface SliderSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const EFFECT_CONTROLS: { key: keyof EffectSettings; label: string; sliders: SliderSpec[] }[] = [
+  {
+    key: 'bloom',
+    label: 'Bloom',
+    sliders: [
+      { key: 'intensity', label: 'Intensity', min: 0, max: 5, step: 0.1 },
+      { key: 'threshold', label: 'Threshold', min: 0, max: 1, step: 0.01 },
+      { key: 'smoothing', label: 'Smoothing', min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  {
+    key: 'chromaticAberration',
+    label: 'Chromatic Aberration',
+    sliders: [{ key: 'offset', label: 'Offset', min: 0, max: 0.01, step: 0.0005 }],
+  },
+  {
+    key: 'vignette',
+    label: 'Vignette',
+    sliders: [
+      { key: 'offset', label: 'Offset', min: 0, max: 1, step: 0.01 },
+      { key: 'darkness', label: 'Darkness', min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  {
+    key: 'noise',
+    label: 'Film Noise',
+    sliders: [{ key: 'opacity', label: 'Opacity', min: 0, max: 1, step: 0.01 }],
+  },
+  {
+    key: 'depthOfField',
+    label: 'Depth of Field',
+    sliders: [
+      { key: 'range', label: 'Focus Range', min: 0.5, max: 10, step: 0.1 },
+      { key: 'bokeh', label: 'Bokeh', min: 0, max: 8, step: 0.1 },
+    ],
+  },
+  {
+    key: 'glitch',
+    label: 'Glitch on Settle',
+    sliders: [
+      { key: 'strength', label: 'Strength', min: 0.05, max: 1, step: 0.05 },
+      { key: 'duration', label: 'Duration', min: 0.1, max: 1.5, step: 0.05 },
+    ],
+  },
+];
+
+const decimals = (step: number) => (step < 0.01 ? 4 : step < 0.1 ? 2 : step < 1 ? 1 : 0);
+
+/**
+ * Settings section for the post-processing stack: a toggle and sliders per
+ * effect, plus named looks (built-in and saved) that swap the whole stack.
+ */
+const EffectsPanel: React.FC<EffectsPanelProps> = ({ effects, onChange, looks, onLooksChange }) => {
+  const [name, setName] = useState('');
+  const current = JSON.stringify(effects);
+
+  // Saving under an existing name overwrites that look
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onLooksChange([...looks.filter((l) => l.name !== trimmed), { name: trimmed, effects }]);
+    setName('');
+  };
+
+  const update = (key: keyof EffectSettings, values: Record<string, number | boolean>) => {
+    onChange({ ...effects, [key]: { ...effects[key], ...values } });
+  };
+
+  const lookButton = (look: Look) => (
+    <button
+      onClick={() => onChange(look.effects)}
+      className={`text-[10px] font-mono uppercase px-2 py-1.5 rounded-lg border transition-colors ${JSON.stringify(look.effects) === current ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+    >
+      {look.name}
+    </button>
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Effects</h3>
+
+      <div className="flex flex-wrap gap-1 mb-2">
+        {BUILT_IN_LOOKS.map((look) => <React.Fragment key={`built-in:${look.name}`}>{lookButton(look)}</React.Fragment>)}
+        {looks.map((look) => (
+          <div key={look.name} className="flex items-center">
+            {lookButton(look)}
+            <button
+              onClick={() => onLooksChange(looks.filter((l) => l !== look))}
+              className="p-1 rounded-md text-gray-500 hover:text-red-400"
+              title="Delete look"
+            >
+              <X size={10} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Look name"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-white/30"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-2 rounded-lg bg-white/10 hover:bg-white/20 border border-white/20 text-white disabled:opacity-30"
+          title="Save current effects as a look"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {EFFECT_CONTROLS.map((control) => {
+        const values = effects[control.key] as unknown as Record<string, number> & { enabled: boolean };
+        const id = `effect-${control.key}`;
+        return (
+          <div key={control.key} className="mb-2">
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor={id} className="text-[10px] font-mono uppercase text-gray-400 cursor-pointer select-none">{control.label}</label>
+              <button
+                id={id}
+                onClick={() => update(control.key, { enabled: !values.enabled })}
+                className={`w-8 h-4 rounded-full relative transition-colors ${values.enabled ? 'bg-cyan-500' : 'bg-white/20'}`}
+              >
+                <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${values.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+              </button>
+            </div>
+            {values.enabled && control.sliders.map((slider) => (
+              <div key={slider.key} className="mb-2 pl-2">
+                <div className="flex justify-between text-[10px] font-mono text-gray-500 mb-1">
+                  <span className="uppercase">{slider.label}</span>
+                  <span className="text-cyan-400">{values[slider.key].toFixed(decimals(slider.step))}</span>
+                </div>
+                <input
+                  type="range"
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={values[slider.key]}
+                  onChange={(e) => update(control.key, { [slider.key]: Number(e.target.value) })}
+                  className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                />
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EffectsPanel;
@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { RootState } from '@react-three/fiber';
+import { Box, Film, X } from 'lucide-react';
+import { ExportFormat, FrameClock, PointCloud } from '../types';
+import { recordFrames, downloadBlob, maxExportDuration, EXPORT_EXTENSIONS } from '../utils/recorder';
+import { serializePly, serializePointJson } from '../utils/pointCloud';
+
+interface ExportPanelProps {
+  getState: () => RootState | null;
+  sequenceDuration: number; // 0 when there is nothing to play
+  onStart: (clock: FrameClock, playSequence: boolean) => void;
+  onFrame: (delta: number) => void;
+  onEnd: () => void;
+  getSnapshot: () => PointCloud | null; // Particle positions and colors as shown
+}
+
+const FORMATS: { name: string; value: ExportFormat }[] = [
+  { name: 'WebM', value: 'webm' },
+  { name: 'GIF', value: 'gif' },
+  { name: 'PNG', value: 'png' },
+];
+
+// 0 × 0 = whatever the canvas currently measures
+const RESOLUTIONS = [
+  { name: 'Screen', width: 0, height: 0 },
+  { name: '720p', width: 1280, height: 720 },
+  { name: '1080p', width: 1920, height: 1080 },
+  { name: 'Square', width: 1080, height: 1080 },
+  { name: 'Story', width: 1080, height: 1920 },
+  { name: 'Small', width: 480, height: 480 },
+];
+
+const POINT_FORMATS = [
+  { name: 'PLY', extension: 'ply', type: 'text/plain', serialize: serializePly },
+  { name: 'JSON', extension: 'json', type: 'application/json', serialize: serializePointJson },
+];
+
+// GIF delays are whole centiseconds, so it can't keep up with 60 fps
+const FRAME_RATES: Record<ExportFormat, number[]> = {
+  webm: [24, 30, 60],
+  gif: [10, 15, 24, 30],
+  png: [24, 30, 60],
+};
+
+const MAX_DURATION = 60; // Seconds
+
+const fieldClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] text-white outline-none focus:border-white/30';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({
+  getState,
+  sequenceDuration,
+  onStart,
+  onFrame,
+  onEnd,
+  getSnapshot
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [resolution, setResolution] = useState(2);
+  const [fps, setFps] = useState(30);
+  const [duration, setDuration] = useState(4);
+  const [playSequence, setPlaySequence] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleFormat = (next: ExportFormat) => {
+    setFormat(next);
+    if (!FRAME_RATES[next].includes(fps)) setFps(30);
+  };
+
+  const handlePlaySequence = () => {
+    if (!playSequence && sequenceDuration > 0) {
+      setDuration(Math.min(Math.ceil(sequenceDuration * 10) / 10, MAX_DURATION));
+    }
+    setPlaySequence(!playSequence);
+  };
+
+  const handleExport = async () => {
+    const state = getState();
+    if (!state || progress !== null) return;
+
+    // Encoders want even dimensions
+    const preset = RESOLUTIONS[resolution];
+    const width = preset.width || Math.round((state.size.width * state.viewport.dpr) / 2) * 2;
+    const height = preset.height || Math.round((state.size.height * state.viewport.dpr) / 2) * 2;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const clock: FrameClock = { elapsed: 0, delta: 0 };
+
+    setError('');
+    setProgress(0);
+    onStart(clock, playSequence && sequenceDuration > 0);
+    try {
+      const blob = await recordFrames(state.get, { format, width, height, fps, duration }, clock, {
+        beforeFrame: onFrame,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(blob, `particle-morph-${width}x${height}.${EXPORT_EXTENSIONS[format]}`);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      onEnd();
+    }
+  };
+
+  const handleSnapshot = (pointFormat: typeof POINT_FORMATS[number]) => {
+    const cloud = getSnapshot();
+    if (!cloud) return;
+    const blob = new Blob([pointFormat.serialize(cloud)], { type: pointFormat.type });
+    downloadBlob(blob, `particle-morph-${cloud.positions.length / 3}.${pointFormat.extension}`);
+  };
+
+  const isExporting = progress !== null;
+  // Known up front for fixed sizes; screen-sized exports are checked when they start
+  const { width: presetWidth, height: presetHeight } = RESOLUTIONS[resolution];
+  const sizeLimit = presetWidth ? maxExportDuration(format, presetWidth, presetHeight, fps) : Infinity;
+
+  return (
+    <div className="pointer-events-auto absolute top-24 right-6 bg-black/60 backdrop-blur-xl border border-white/10 p-5 rounded-xl shadow-2xl w-72 animate-in fade-in slide-in-from-top-4 duration-200 z-50">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">Export</h3>
+
+      <fieldset disabled={isExporting} className="space-y-3 disabled:opacity-50">
+        <div className="flex gap-2">
+          {FORMATS.map((f) => (
+            <button
+              key={f.value}
+              onClick={() => handleFormat(f.value)}
+              className={`flex-1 py-1.5 rounded-lg text-xs font-medium border transition-all ${format === f.value ? 'bg-white/15 border-white/40 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'}`}
+            >
+              {f.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-[10px] font-mono text-gray-500">
+          <label className="col-span-3 flex items-center gap-2">
+            SIZE
+            <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} className={`${fieldClass} flex-1`}>
+              {RESOLUTIONS.map((r, i) => (
+                <option key={r.name} value={i} className="bg-black">
+                  {r.width ? `${r.name} (${r.width}×${r.height})` : r.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            FPS
+            <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={`${fieldClass} flex-1 min-w-0`}>
+              {FRAME_RATES[format].map((rate) => (
+                <option key={rate} value={rate} className="bg-black">{rate}</option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2 flex items-center gap-1" title="Duration (s)">
+            SECONDS
+            <input
+              type="number"
+              min={0.5}
+              max={MAX_DURATION}
+              step={0.5}
+              value={duration}
+              onChange={(e) => setDuration(Math.min(Math.max(Number(e.target.value), 0.5), MAX_DURATION))}
+              className={`${fieldClass} flex-1 min-w-0`}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-gray-400 select-none">PLAY SEQUENCE FROM START</span>
+          <button
+            onClick={handlePlaySequence}
+            disabled={sequenceDuration === 0}
+            className={`w-8 h-4 rounded-full relative transition-colors disabled:opacity-30 ${playSequence ? 'bg-cyan-500' : 'bg-white/20'}`}
+          >
+            <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${playSequence ? 'translate-x-4' : 'translate-x-0'}`} />
+          </button>
+        </div>
+      </fieldset>
+
+      {isExporting ? (
+        <div className="mt-4 flex items-center gap-2">
+          <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-400 transition-[width]" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <span className="text-[10px] font-mono text-gray-400 w-8 text-right">{Math.round(progress * 100)}%</span>
+          <button onClick={() => abortRef.current?.abort()} className="p-1 text-gray-400 hover:text-red-400" title="Cancel">
+            <X size={14} />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleExport}
+          className="mt-4 w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-white/10 hover:bg-white/20 border border-white/20 text-xs font-medium text-white transition-all"
+        >
+          <Film size={14} /> Export {Math.round(duration * fps)} frames
+        </button>
+      )}
+
+      {error && <div className="mt-2 text-[10px] font-mono text-red-400">{error}</div>}
+      {!error && duration > sizeLimit && (
+        <div className="mt-2 text-[10px] font-mono text-amber-400">
+          {format.toUpperCase()} at this size is limited to {Math.floor(sizeLimit * 10) / 10} s
+        </div>
+      )}
+
+      <div className="border-t border-white/10 pt-4 mt-4">
+        <div className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+          <Box size={12} /> POINTS
+          {POINT_FORMATS.map((pointFormat) => (
+            <button
+              key={pointFormat.extension}
+              onClick={() => handleSnapshot(pointFormat)}
+              disabled={isExporting}
+              className="flex-1 py-1.5 rounded-lg text-xs font-medium border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 transition-all disabled:opacity-50"
+              title="Snapshot the particles as shown"
+            >
+              {pointFormat.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { MeshSettings, MorphPair } from '../types';
+import { createMeshDepthMaterial, createMeshMaterial, MeshUniforms } from '../utils/particleShader';
+import { createParticleGeometry } from '../utils/meshParticles';
+
+interface ParticleMeshProps {
+  rest: MorphPair;
+  goal: MorphPair;
+  seeds: Float32Array;
+  delays: Float32Array;
+  simPositions: Float32Array;
+  uniforms: MeshUniforms;
+  settings: MeshSettings;
+  meshRef: React.RefObject<THREE.Object3D | null>;
+  simAttribute: React.RefObject<THREE.BufferAttribute | null>;
+  geometry?: THREE.BufferGeometry | null; // Custom particle shape, overrides `settings.geometry`
+}
+
+/**
+ * The particles as one InstancedMesh of small lit shapes. Instance matrices
+ * stay at identity: every instance is placed, turned and sized in the vertex
+ * shader from the same morph buffers the points use.
+ */
+const ParticleMesh: React.FC<ParticleMeshProps> = ({
+  rest,
+  goal,
+  seeds,
+  delays,
+  simPositions,
+  uniforms,
+  settings,
+  meshRef,
+  simAttribute,
+  geometry: customGeometry = null,
+}) => {
+  const count = rest.to.positions.length / 3;
+
+  // Each instance of the component owns its copy, since the morph buffers get attached to it
+  const geometry = useMemo(
+    () => customGeometry ? customGeometry.clone() : createParticleGeometry(settings.geometry),
+    [customGeometry, settings.geometry]
+  );
+  const material = useMemo(() => createMeshMaterial(uniforms), [uniforms]);
+  const depthMaterial = useMemo(() => createMeshDepthMaterial(uniforms), [uniforms]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => {
+    material.dispose();
+    depthMaterial.dispose();
+  }, [material, depthMaterial]);
+
+  return (
+    <instancedMesh
+      // A new count needs a new instance matrix buffer
+      key={count}
+      ref={meshRef as React.RefObject<THREE.InstancedMesh>}
+      args={[undefined, undefined, count]}
+      frustumCulled={false}
+      castShadow={settings.shadows}
+      receiveShadow={settings.shadows}
+      customDepthMaterial={depthMaterial}
+    >
+      <primitive object={geometry} attach="geometry" key={geometry.uuid}>
+        <instancedBufferAttribute attach="attributes-aPrevRest" args={[rest.from.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aRest" args={[rest.to.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aPrevTarget" args={[goal.from.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aTarget" args={[goal.to.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aPrevTargetColor" args={[goal.from.colors, 4]} />
+        <instancedBufferAttribute attach="attributes-aTargetColor" args={[goal.to.colors, 4]} />
+        <instancedBufferAttribute attach="attributes-aPrevTargetEdge" args={[goal.from.edges, 1]} />
+        <instancedBufferAttribute attach="attributes-aTargetEdge" args={[goal.to.edges, 1]} />
+        <instancedBufferAttribute attach="attributes-aSeed" args={[seeds, 1]} />
+        <instancedBufferAttribute attach="attributes-aDelay" args={[delays, 1]} />
+        <instancedBufferAttribute
+          ref={simAttribute as React.RefObject<THREE.InstancedBufferAttribute>}
+          attach="attributes-aSimPosition"
+          args={[simPositions, 3]}
+          usage={THREE.DynamicDrawUsage}
+        />
+      </primitive>
+      <primitive object={material} attach="material" />
+    </instancedMesh>
+  );
+};
+
+export default ParticleMesh;
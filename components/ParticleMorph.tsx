@@ -0,0 +1,245 @@
+import React, { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, RootState, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { EffectComposer, Bloom, ChromaticAberration, Glitch, Noise, Vignette } from '@react-three/postprocessing';
+import { GlitchMode } from 'postprocessing';
+import ParticleScene, { ParticleSceneProps } from './ParticleScene';
+import { AudioAnalysis, DEFAULT_AUDIO, scaledLevel } from '../utils/audio';
+import { AfterimageEffect } from '../utils/afterimageEffect';
+import { DEFAULT_EFFECTS } from '../utils/effects';
+import { AudioSettings, EffectSettings, FrameStats } from '../types';
+
+export interface ParticleMorphProps extends ParticleSceneProps {
+  background?: string;  // Scene and fog color
+  bloom?: boolean;      // Glow post-processing pass (switches off `effects.bloom` too)
+  effects?: EffectSettings; // Post-processing stack
+  bloomHeight?: number; // Bloom render target height, px
+  controls?: boolean;   // Drag to orbit, scroll to zoom
+  dpr?: number | [number, number]; // Pixel ratio, or a [min, max] range for the device's
+  onCreated?: (state: RootState) => void;
+  onStats?: (stats: FrameStats, interval: number) => void; // Every STATS_INTERVAL seconds
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const STATS_INTERVAL = 0.5; // Seconds per FrameStats sample
+const STALL = 0.5;          // Longer frames (hidden tab, breakpoint) aren't counted
+
+/**
+ * Averages frame times and draw calls over STATS_INTERVAL. Three's counters
+ * are switched to manual reset so they add up every pass of a frame, bloom
+ * included, rather than just the last one.
+ */
+const StatsProbe: React.FC<{ onStats: (stats: FrameStats, interval: number) => void }> = ({ onStats }) => {
+  const gl = useThree((state) => state.gl);
+  const sample = useRef({ time: 0, frames: 0, calls: 0 });
+
+  useEffect(() => {
+    gl.info.autoReset = false;
+    return () => {
+      gl.info.autoReset = true;
+    };
+  }, [gl]);
+
+  useFrame((state, delta) => {
+    // Everything drawn since the last reset, i.e. the whole previous frame
+    const calls = gl.info.render.calls;
+    gl.info.reset();
+    if (delta > STALL) return;
+
+    const s = sample.current;
+    s.time += delta;
+    s.frames++;
+    s.calls += calls;
+    if (s.time < STATS_INTERVAL) return;
+
+    onStats({
+      fps: s.frames / s.time,
+      frameTime: (s.time * 1000) / s.frames,
+      drawCalls: Math.round(s.calls / s.frames),
+      dpr: state.viewport.dpr,
+    }, s.time);
+    sample.current = { time: 0, frames: 0, calls: 0 };
+  });
+
+  return null;
+};
+
+interface ReactiveBloomProps {
+  audio: AudioAnalysis | null;
+  audioSettings: AudioSettings;
+  settings: EffectSettings['bloom'];
+  height: number;
+}
+
+/**
+ * Bloom whose intensity follows the overall audio level (the scene samples
+ * the analyser earlier in the same frame).
+ */
+const ReactiveBloom: React.FC<ReactiveBloomProps> = ({ audio, audioSettings, settings, height }) => {
+  const bloomRef = useRef<React.ComponentRef<typeof Bloom>>(null);
+
+  useFrame(() => {
+    if (!bloomRef.current) return;
+    const boost = audio ? scaledLevel(audio.levels.level, audioSettings) * audioSettings.bloom : 0;
+    bloomRef.current.intensity = settings.intensity * (1 + boost);
+  });
+
+  return (
+    <Bloom
+      ref={bloomRef}
+      luminanceThreshold={settings.threshold}
+      luminanceSmoothing={settings.smoothing}
+      height={height}
+      intensity={settings.intensity}
+    />
+  );
+};
+
+/**
+ * Glitch that plays for `duration` seconds each time `pulse` changes.
+ */
+const GlitchPulse: React.FC<{ pulse: number; strength: number; duration: number }> = ({ pulse, strength, duration }) => {
+  const [active, setActive] = useState(false);
+  const remaining = useRef(0);
+  // Pulses from before this mounted don't count
+  const seen = useRef(pulse);
+
+  useEffect(() => {
+    if (pulse === seen.current) return;
+    seen.current = pulse;
+    remaining.current = duration;
+    setActive(true);
+  }, [pulse, duration]);
+
+  useFrame((_, delta) => {
+    if (remaining.current <= 0) return;
+    remaining.current -= delta;
+    if (remaining.current <= 0) setActive(false);
+  });
+
+  return <Glitch active={active} mode={GlitchMode.CONSTANT_WILD} strength={[strength * 0.5, strength]} />;
+};
+
+/**
+ * Afterimage pass for the composer; one effect instance for its lifetime.
+ */
+const Afterimage: React.FC<{ persistence: number }> = ({ persistence }) => {
+  const effect = useMemo(() => new AfterimageEffect(persistence), []);
+
+  useEffect(() => {
+    effect.persistence = persistence;
+  }, [effect, persistence]);
+
+  useEffect(() => () => effect.dispose(), [effect]);
+
+  return <primitive object={effect} />;
+};
+
+/**
+ * The particle scene in a ready-to-use canvas (camera, fog, effects, orbit
+ * controls) with no UI of its own. Fills its parent element.
+ */
+const ParticleMorph: React.FC<ParticleMorphProps> = ({
+  background = '#050510',
+  bloom = true,
+  effects = DEFAULT_EFFECTS,
+  bloomHeight = 300,
+  controls = true,
+  dpr = [1, 2],
+  onCreated,
+  onStats,
+  className,
+  style,
+  ...sceneProps
+}) => {
+  const afterimage = sceneProps.trails?.mode === 'afterimage';
+  const meshMode = sceneProps.mesh?.renderer === 'mesh';
+  const shadows = meshMode && sceneProps.mesh.shadows;
+  const showBloom = bloom && effects.bloom.enabled;
+  const { chromaticAberration, vignette, noise, glitch } = effects;
+  const hasEffects = afterimage || showBloom || chromaticAberration.enabled || vignette.enabled || noise.enabled || glitch.enabled;
+
+  // Every settled morph pulses the glitch (when it's on)
+  const [glitchPulse, setGlitchPulse] = useState(0);
+  const { onMorphComplete } = sceneProps;
+  const handleMorphComplete = useCallback(() => {
+    setGlitchPulse((n) => n + 1);
+    onMorphComplete?.();
+  }, [onMorphComplete]);
+
+  return (
+    <Canvas
+      className={className}
+      style={style}
+      camera={{ position: [0, 0, 12], fov: 45 }}
+      gl={{
+        antialias: true,
+        alpha: true, // Allow transparency to prevent potential composer clearing issues
+        powerPreference: "high-performance"
+      }}
+      dpr={dpr}
+      shadows={shadows}
+      onCreated={onCreated}
+    >
+      <color attach="background" args={[background]} />
+      {/* Use a fog to help blend the glow distance */}
+      <fog attach="fog" args={[background, 10, 25]} />
+
+      <ambientLight intensity={0.5} />
+      {/* Mesh particles are lit: a key light from the upper right, which casts the shadows */}
+      {meshMode && (
+        <directionalLight
+          position={[6, 8, 10]}
+          intensity={2.5}
+          castShadow={shadows}
+          shadow-mapSize={[2048, 2048]}
+          shadow-camera-left={-10}
+          shadow-camera-right={10}
+          shadow-camera-top={10}
+          shadow-camera-bottom={-10}
+          shadow-camera-near={1}
+          shadow-camera-far={40}
+          shadow-bias={-0.0005}
+        />
+      )}
+
+      <Suspense fallback={null}>
+        <ParticleScene {...sceneProps} depthOfField={effects.depthOfField} onMorphComplete={handleMorphComplete} />
+        {hasEffects && (
+          <EffectComposer>
+            {afterimage && <Afterimage persistence={sceneProps.trails.persistence} />}
+            {showBloom && (
+              <ReactiveBloom
+                audio={sceneProps.audio ?? null}
+                audioSettings={sceneProps.audioSettings ?? DEFAULT_AUDIO}
+                settings={effects.bloom}
+                height={bloomHeight}
+              />
+            )}
+            {chromaticAberration.enabled && (
+              <ChromaticAberration offset={[chromaticAberration.offset, chromaticAberration.offset]} />
+            )}
+            {glitch.enabled && <GlitchPulse pulse={glitchPulse} strength={glitch.strength} duration={glitch.duration} />}
+            {noise.enabled && <Noise opacity={noise.opacity} />}
+            {vignette.enabled && <Vignette offset={vignette.offset} darkness={vignette.darkness} />}
+          </EffectComposer>
+        )}
+      </Suspense>
+
+      {onStats && <StatsProbe onStats={onStats} />}
+
+      {controls && (
+        <OrbitControls
+          enableZoom={true}
+          enablePan={false}
+          rotateSpeed={0.5}
+          minDistance={5}
+          maxDistance={20}
+        />
+      )}
+    </Canvas>
+  );
+};
+
+export default ParticleMorph;
@@ -0,0 +1,178 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import ParticleMorph from './ParticleMorph';
+import { ColorMode, EasingName, MeshSettings, MorphState, ShapeKind, StaggerSettings, TrailSettings, TransitionTiming } from '../types';
+import { isShape } from '../utils/shapes';
+import { COLOR_MODES } from '../utils/particleShader';
+import { DEFAULT_TRAILS } from '../utils/trails';
+import { DEFAULT_MESH, PARTICLE_GEOMETRIES } from '../utils/meshParticles';
+import { DEFAULT_TRANSITION, EASING_NAMES } from '../utils/easing';
+import { DEFAULT_STAGGER, STAGGER_PATTERNS } from '../utils/stagger';
+import { MIN_PARTICLES, MAX_PARTICLES } from '../utils/sceneConfig';
+import { REDUCED_MOTION_QUERY } from '../hooks/useReducedMotion';
+
+const DEFAULT_COLOR = '#4cc9f0';
+const DEFAULT_PARTICLE_COUNT = 8000;
+// World units; beyond this points cover the whole shape
+const MAX_PARTICLE_SIZE = 2;
+
+export interface MorphEventDetail {
+  text: string;
+  morphed: boolean; // true = formed the text, false = back to the resting shape
+}
+
+const readNumber = (value: string | null, fallback: number, min = -Infinity, max = Infinity): number => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+};
+
+const readShape = (value: string | null): ShapeKind => {
+  const state = value?.toUpperCase() as MorphState;
+  return Object.values(MorphState).includes(state) && isShape(state) ? state : MorphState.SPHERE;
+};
+
+const readColorMode = (value: string | null): ColorMode => {
+  return COLOR_MODES.includes(value as ColorMode) ? value as ColorMode : 'solid';
+};
+
+const readTrails = (value: string | null): TrailSettings => {
+  const mode = value === 'lines' || value === 'afterimage' ? value : 'off';
+  return { ...DEFAULT_TRAILS, mode };
+};
+
+const readMesh = (value: string | null): MeshSettings => {
+  const geometry = PARTICLE_GEOMETRIES.find((kind) => kind === value);
+  return geometry ? { ...DEFAULT_MESH, renderer: 'mesh', geometry } : DEFAULT_MESH;
+};
+
+const readTransition = (duration: string | null, easing: string | null): TransitionTiming => ({
+  duration: Math.max(readNumber(duration, DEFAULT_TRANSITION.duration), 0),
+  easing: EASING_NAMES.includes(easing as EasingName) ? easing as EasingName : DEFAULT_TRANSITION.easing,
+});
+
+const readStagger = (value: string | null): StaggerSettings => {
+  const pattern = STAGGER_PATTERNS.find((name) => name === value);
+  return pattern ? { ...DEFAULT_STAGGER, pattern } : DEFAULT_STAGGER;
+};
+
+/**
+ * `<particle-morph>`: the particle effect as a framework-agnostic custom element.
+ *
+ *   <particle-morph text="HELLO" color="#ffd700"></particle-morph>
+ *
+ * Attributes: text, color, secondary-color, color-mode (e.g. "linear"),
+ * particle-count (1000-100000), particle-size, shape (e.g. "torus"), seed, background,
+ * bloom="false", controls="false", trails ("lines" or "afterimage"), mesh (a
+ * particle shape such as "cube": lit 3D particles instead of points), duration
+ * (seconds), easing (e.g. "easeOutBounce"), stagger (e.g. "typewriter").
+ * Changing `text` morphs into it. Methods: morphTo(text), reset(), pause(), resume(). Fires
+ * `morphstart` and `morphcomplete` with a MorphEventDetail. Honors the OS
+ * reduced-motion setting.
+ */
+export class ParticleMorphElement extends HTMLElement {
+  static observedAttributes = [
+    'text', 'color', 'secondary-color', 'color-mode', 'particle-count', 'particle-size', 'shape', 'seed', 'background', 'bloom', 'controls', 'trails', 'mesh',
+    'duration', 'easing', 'stagger',
+  ];
+
+  private root: Root | null = null;
+  private container: HTMLDivElement;
+  private text = '';
+  private isMorphing = false;
+  private isPaused = false;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = ':host { display: block; position: relative; min-height: 200px; } div { position: absolute; inset: 0; }';
+    this.container = document.createElement('div');
+    shadow.append(style, this.container);
+  }
+
+  connectedCallback() {
+    this.root = createRoot(this.container);
+    this.update();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback(name: string, _old: string | null, value: string | null) {
+    if (name === 'text') {
+      this.text = value ?? '';
+      this.isMorphing = this.text.trim().length > 0;
+    }
+    this.update();
+  }
+
+  /** Morphs into `text` (without touching the `text` attribute). */
+  morphTo(text: string) {
+    this.text = text;
+    this.isMorphing = text.trim().length > 0;
+    this.update();
+  }
+
+  /** Returns to the resting shape. */
+  reset() {
+    this.isMorphing = false;
+    this.update();
+  }
+
+  pause() {
+    this.isPaused = true;
+    this.update();
+  }
+
+  resume() {
+    this.isPaused = false;
+    this.update();
+  }
+
+  private emit(type: 'morphstart' | 'morphcomplete') {
+    const detail: MorphEventDetail = { text: this.text, morphed: this.isMorphing };
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private update() {
+    this.root?.render(
+      <ParticleMorph
+        text={this.text}
+        isMorphing={this.isMorphing}
+        isPaused={this.isPaused}
+        color={this.getAttribute('color') ?? DEFAULT_COLOR}
+        secondaryColor={this.getAttribute('secondary-color') ?? undefined}
+        colorMode={readColorMode(this.getAttribute('color-mode'))}
+        particleCount={Math.round(readNumber(this.getAttribute('particle-count'), DEFAULT_PARTICLE_COUNT, MIN_PARTICLES, MAX_PARTICLES))}
+        particleSize={readNumber(this.getAttribute('particle-size'), 0.15, 0, MAX_PARTICLE_SIZE)}
+        shape={readShape(this.getAttribute('shape'))}
+        seed={Math.floor(readNumber(this.getAttribute('seed'), 1, 0, 0xffffffff))}
+        background={this.getAttribute('background') ?? undefined}
+        bloom={this.getAttribute('bloom') !== 'false'}
+        controls={this.getAttribute('controls') !== 'false'}
+        trails={readTrails(this.getAttribute('trails'))}
+        mesh={readMesh(this.getAttribute('mesh'))}
+        transition={readTransition(this.getAttribute('duration'), this.getAttribute('easing'))}
+        stagger={readStagger(this.getAttribute('stagger'))}
+        reducedMotion={window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false}
+        onMorphStart={() => this.emit('morphstart')}
+        onMorphComplete={() => this.emit('morphcomplete')}
+      />
+    );
+  }
+}
+
+/**
+ * Registers the element (once) under `tagName`.
+ */
+export const defineParticleMorphElement = (tagName = 'particle-morph') => {
+  if (!customElements.get(tagName)) customElements.define(tagName, ParticleMorphElement);
+};
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'particle-morph': ParticleMorphElement;
+  }
+}
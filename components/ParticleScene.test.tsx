@@ -0,0 +1,180 @@
+import React from 'react';
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import ReactThreeTestRenderer from '@react-three/test-renderer';
+import ParticleScene, { ParticleSceneProps } from './ParticleScene';
+import { MorphState, PointCloud } from '../types';
+import { DEFAULT_MESH } from '../utils/meshParticles';
+
+const FRAME = 0.1; // Seconds per simulated frame
+const TRANSITION = { duration: 1, easing: 'linear' as const };
+
+const BASE_PROPS: ParticleSceneProps = {
+  text: '',
+  isMorphing: true,
+  isPaused: false,
+  color: '#4cc9f0',
+  particleCount: 600,
+  shape: MorphState.SPHERE,
+  target: MorphState.CUBE,
+  transition: TRANSITION,
+  reducedMotion: true,
+  seed: 3,
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * A CPU reference model of the vertex shader's blend: where it would put
+ * every particle for the current attributes and uniforms (before jitter),
+ * summarised for a snapshot as extent, centre and a sample. The shader
+ * itself isn't compiled or run here (jsdom has no WebGL), so this checks
+ * the buffers and uniforms the scene feeds it, not rendered output.
+ */
+const snapshotPoints = (points: THREE.Points) => {
+  const material = points.material as THREE.ShaderMaterial;
+  const u = material.uniforms;
+  const attribute = (name: string) => points.geometry.getAttribute(name).array as Float32Array;
+  const prevRest = attribute('aPrevRest');
+  const rest = attribute('position');
+  const prevTarget = attribute('aPrevTarget');
+  const target = attribute('aTarget');
+
+  const box = new THREE.Box3();
+  const centre = new THREE.Vector3();
+  const point = new THREE.Vector3();
+  const sample: number[][] = [];
+  const count = rest.length / 3;
+
+  for (let i = 0; i < count; i++) {
+    const p = [0, 1, 2].map((axis) => {
+      const k = i * 3 + axis;
+      const restPos = (prevRest[k] + (rest[k] - prevRest[k]) * u.uRestBlend.value) * u.uRestScale.value;
+      const targetPos = prevTarget[k] + (target[k] - prevTarget[k]) * u.uTargetBlend.value;
+      return restPos + (targetPos - restPos) * u.uMorph.value;
+    });
+    point.fromArray(p);
+    box.expandByPoint(point);
+    centre.add(point);
+    if (i % 150 === 0) sample.push(p.map(round));
+  }
+
+  return {
+    morph: round(u.uMorph.value),
+    count,
+    min: box.min.toArray().map(round),
+    max: box.max.toArray().map(round),
+    centre: centre.divideScalar(count).toArray().map(round),
+    sample,
+  };
+};
+
+const renderScene = async (props: Partial<ParticleSceneProps> = {}) => {
+  const renderer = await ReactThreeTestRenderer.create(<ParticleScene {...BASE_PROPS} {...props} />);
+  const points = () => renderer.scene.children[0].instance as THREE.Points;
+  return { renderer, points };
+};
+
+describe('ParticleScene', () => {
+  it.each([0, 0.3, 0.5, 1])('feeds the shader the reference layout at morph progress %f (CPU model, not a WebGL render)', async (progress) => {
+    const { renderer, points } = await renderScene();
+    const frames = Math.round(progress / FRAME);
+    if (frames > 0) await renderer.advanceFrames(frames, FRAME);
+    const snapshot = snapshotPoints(points());
+    expect(snapshot.morph).toBeCloseTo(progress);
+    expect(snapshot).toMatchSnapshot();
+    await renderer.unmount();
+  });
+
+  it('is identical across runs with the same seed', async () => {
+    const first = await renderScene();
+    await first.renderer.advanceFrames(4, FRAME);
+    const a = snapshotPoints(first.points());
+    await first.renderer.unmount();
+
+    const second = await renderScene();
+    await second.renderer.advanceFrames(4, FRAME);
+    expect(snapshotPoints(second.points())).toEqual(a);
+    await second.renderer.unmount();
+  });
+
+  it('morphs back to the resting shape', async () => {
+    const { renderer, points } = await renderScene();
+    await renderer.advanceFrames(10, FRAME);
+    await renderer.update(<ParticleScene {...BASE_PROPS} isMorphing={false} />);
+    await renderer.advanceFrames(10, FRAME);
+    const snapshot = snapshotPoints(points());
+    expect(snapshot.morph).toBe(0);
+    // Resting on the sphere: every particle at the shape's radius
+    expect(Math.max(...snapshot.max)).toBeCloseTo(3.5, 1);
+    await renderer.unmount();
+  });
+
+  it('holds still while paused', async () => {
+    const { renderer, points } = await renderScene({ isPaused: true });
+    await renderer.advanceFrames(5, FRAME);
+    expect(snapshotPoints(points()).morph).toBe(0);
+    await renderer.unmount();
+  });
+
+  it('draws mesh particles from the same buffers', async () => {
+    const mesh = { ...DEFAULT_MESH, renderer: 'mesh' as const, geometry: 'cube' as const };
+    const { renderer, points } = await renderScene();
+    const { renderer: meshRenderer } = await renderScene({ mesh });
+    const instanced = meshRenderer.scene.children[0].instance as THREE.InstancedMesh;
+
+    // R3F builds objects from its own (CommonJS) copy of three here, so check flags rather than classes
+    expect(instanced.isInstancedMesh).toBe(true);
+    expect(instanced.count).toBe(BASE_PROPS.particleCount);
+    for (const [name, source] of [['aRest', 'position'], ['aTarget', 'aTarget'], ['aSeed', 'aSeed']]) {
+      const attribute = instanced.geometry.getAttribute(name);
+      expect((attribute as THREE.InstancedBufferAttribute).isInstancedBufferAttribute).toBe(true);
+      expect(attribute.array).toEqual(points().geometry.getAttribute(source).array);
+    }
+    expect(instanced.customDepthMaterial).toBeInstanceOf(THREE.MeshDepthMaterial);
+    expect(instanced.material).toBeInstanceOf(THREE.MeshStandardMaterial);
+
+    await renderer.unmount();
+    await meshRenderer.unmount();
+  });
+
+  it('staggers the morph by the target layout', async () => {
+    const { renderer, points } = await renderScene({ stagger: { pattern: 'sweep', amount: 0.6 } });
+    await renderer.advanceFrames(5, FRAME);
+    const geometry = points().geometry;
+    const u = (points().material as THREE.ShaderMaterial).uniforms;
+    const target = geometry.getAttribute('aTarget').array as Float32Array;
+    const delays = geometry.getAttribute('aDelay').array as Float32Array;
+
+    expect(u.uStagger.value).toBeCloseTo(0.6);
+    expect(u.uProgress.value).toBeCloseTo(0.5);
+    // The leftmost target point sets off first, the rightmost last
+    const xs = Array.from(delays, (_, i) => target[i * 3]);
+    expect(delays[xs.indexOf(Math.min(...xs))]).toBe(0);
+    expect(delays[xs.indexOf(Math.max(...xs))]).toBe(1);
+    await renderer.unmount();
+  });
+
+  it('morphs into a point cloud and snapshots what it shows', async () => {
+    const pointCloud: PointCloud = {
+      positions: Float32Array.from({ length: 300 }, (_, i) => (i % 3 === 0 ? i : i % 3)),
+      colors: Float32Array.from({ length: 300 }, () => 1),
+    };
+    const snapshotRef: React.MutableRefObject<(() => PointCloud) | null> = { current: null };
+    const { renderer, points } = await renderScene({ target: MorphState.POINTS, pointCloud, snapshotRef });
+    await renderer.advanceFrames(12, FRAME);
+
+    const snapshot = snapshotRef.current!();
+    const shown = snapshotPoints(points());
+    expect(shown.morph).toBe(1);
+    expect(snapshot.positions).toHaveLength(BASE_PROPS.particleCount! * 3);
+    // The cloud's own (white) colors have replaced the theme's
+    expect(Array.from(snapshot.colors!.subarray(0, 3)).map(round)).toEqual([1, 1, 1]);
+    const xs = Array.from({ length: BASE_PROPS.particleCount! }, (_, i) => snapshot.positions[i * 3]);
+    expect(round(Math.min(...xs))).toBeCloseTo(shown.min[0], 1);
+    expect(round(Math.max(...xs))).toBeCloseTo(shown.max[0], 1);
+
+    await renderer.unmount();
+    expect(snapshotRef.current).toBeNull();
+  });
+});
@@ -1,20 +1,143 @@
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useEffect, useLayoutEffect, useState, useCallback } from 'react';
 import * as THREE from 'three';
 import { useFrame, useThree } from '@react-three/fiber';
-import { generateSpherePositions, createGlowTexture, sampleTextPositions } from '../utils/particleUtils';
+import { createGlowTexture, blendPositions, smoothStep, DEFAULT_TEXT_LAYOUT, FLAT } from '../utils/particleUtils';
+import { createRandom } from '../utils/random';
+import { createSpringState, settleSprings, stepSprings, DEFAULT_PHYSICS, SpringState, SpringTargets } from '../utils/physics';
+import { AudioAnalysis, DEFAULT_AUDIO, SILENCE, scaledLevel } from '../utils/audio';
+import { generateShapePositions, isShape } from '../utils/shapes';
+import { getSampler } from '../utils/sampler';
+import { SampleRequest } from '../utils/sampleRequest';
+import { samplePointCloud } from '../utils/pointCloud';
+import { AssignmentStrategy, AudioSettings, ColorMode, EffectSettings, Extrusion, FrameClock, ImageSampleOptions, MeshSettings, MorphFrame, MorphPair, MorphState, PhysicsSettings, PointCloud, SampledTarget, ShapeKind, StaggerSettings, TextLayout, TrailSettings, TransitionTiming } from '../types';
+import { DEFAULT_TRANSITION, EASINGS, sampleEasing } from '../utils/easing';
+import { DEFAULT_STAGGER, MAX_STAGGER, particleMorphs, staggerDelays } from '../utils/stagger';
+import { particleVertexShader, particleFragmentShader, particleColorAt, createMeshUniforms, createParticleUniforms, createTrailUniforms, COLOR_MODES } from '../utils/particleShader';
+import { createTrailHistory, recordTrail, resetTrail, DEFAULT_TRAILS } from '../utils/trails';
+import { DEFAULT_EFFECTS } from '../utils/effects';
+import { DEFAULT_MESH } from '../utils/meshParticles';
+import ParticleTrails from './ParticleTrails';
+import ParticleMesh from './ParticleMesh';
 
-interface ParticleSceneProps {
+export interface ParticleSceneProps {
   text: string;
-  isMorphing: boolean; // true = text, false = sphere
+  isMorphing: boolean; // true = target, false = resting shape
   isPaused: boolean;
   particleCount?: number;
   color: string;
+  secondaryColor?: string; // Other end of gradients / interior color; defaults to `color`
+  colorMode?: ColorMode;   // How the two colors spread over the particles
   particleSize?: number;
+  assignment?: AssignmentStrategy;
+  shape?: ShapeKind;    // Resting shape
+  target?: MorphState;  // What a morph turns into: text, an image, a point cloud or another shape
+  image?: HTMLImageElement | null;
+  pointCloud?: PointCloud | null;
+  imageOptions?: ImageSampleOptions;
+  textLayout?: TextLayout;
+  extrusion?: Extrusion; // Flat (default) or solid text / image targets
+  transition?: TransitionTiming | null; // Duration + easing; null = exponential damping
+  stagger?: StaggerSettings; // Order particles set off in; all at once by default
+  clock?: FrameClock | null; // External time source (exports); null = R3F's frame clock
+  seed?: number; // Same seed + inputs = identical layouts
+  physics?: PhysicsSettings; // Spring simulation + pointer force; off by default
+  audio?: AudioAnalysis | null; // Live input the scene reacts to; null = none
+  audioSettings?: AudioSettings;
+  onBeat?: () => void;
+  reducedMotion?: boolean; // No wobble, auto-rotation or pointer parallax
+  trails?: TrailSettings;  // Line trails are drawn here; the afterimage is a post effect
+  depthOfField?: EffectSettings['depthOfField']; // Focused on the text plane (points only)
+  mesh?: MeshSettings; // Points or lit instanced meshes (lights come from the scene)
+  meshGeometry?: THREE.BufferGeometry | null; // Custom mesh particle shape, about 1 unit across
+  onMorphStart?: () => void;    // Particles start moving after standing still
+  onMorphComplete?: () => void; // Every transition has settled
+  // Set to a function reading back the particles as shown (local space, before jitter)
+  snapshotRef?: React.MutableRefObject<(() => PointCloud) | null>;
 }
 
 const PARTICLE_COUNT = 8000;
-const SPHERE_RADIUS = 3.5;
+const SHAPE_SIZE = 3.5;
 const MORPH_SPEED = 2.5; // Speed multiplier for interpolation
+const DEFAULT_SEED = 1;
+const DEFAULT_IMAGE_OPTIONS: ImageSampleOptions = { threshold: 'alpha', invert: false };
+
+const emptyTarget = (count: number): SampledTarget => ({
+  positions: new Float32Array(count * 3),
+  colors: null,
+  edges: null,
+  order: null,
+});
+
+const plainFrame = (positions: Float32Array): MorphFrame => ({
+  positions,
+  colors: new Float32Array((positions.length / 3) * 4),
+  edges: new Float32Array(positions.length / 3),
+});
+
+/**
+ * Local xy extent of a layout as (minX, minY, maxX, maxY), which the color
+ * modes spread their gradients across.
+ */
+const planarBounds = (positions: Float32Array, out: THREE.Vector4) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]);
+    maxX = Math.max(maxX, positions[i]);
+    minY = Math.min(minY, positions[i + 1]);
+    maxY = Math.max(maxY, positions[i + 1]);
+  }
+  return positions.length > 0 ? out.set(minX, minY, maxX, maxY) : out.set(-1, -1, 1, 1);
+};
+
+/**
+ * Moves a 0-1 progress value toward `goal`: linearly over `timing.duration`
+ * when a timing is given, otherwise with the default exponential damping.
+ */
+const advanceProgress = (progress: number, goal: number, delta: number, timing: TransitionTiming | null) => {
+  const diff = goal - progress;
+  if (timing) {
+    const stepSize = delta / Math.max(timing.duration, 0.001);
+    return Math.abs(diff) <= stepSize ? goal : progress + Math.sign(diff) * stepSize;
+  }
+  // Smooth dampening
+  if (Math.abs(diff) <= 0.001) return goal;
+  return progress + diff * Math.min(delta * MORPH_SPEED, 1);
+};
+
+/**
+ * A from → to pair of frames that the shader blends with its own progress.
+ * Retargeting snapshots what is currently on screen as the new `from`, so a
+ * change mid-flight tweens instead of snapping.
+ */
+const useMorphChannel = (initial: Float32Array, ease: React.MutableRefObject<(t: number) => number>) => {
+  const [buffers, setBuffers] = useState<MorphPair>(() => ({ from: plainFrame(initial), to: plainFrame(initial) }));
+  // Mirrors `buffers` synchronously so effects in the same commit see updates
+  const latest = useRef(buffers);
+  const progress = useRef(1);
+
+  const displayed = useCallback((): MorphFrame => {
+    const { from, to } = latest.current;
+    const t = ease.current(progress.current);
+    return {
+      positions: blendPositions(from.positions, to.positions, t),
+      colors: blendPositions(from.colors, to.colors, t),
+      edges: blendPositions(from.edges, to.edges, t),
+    };
+  }, []);
+
+  const retarget = useCallback((next: MorphFrame, animate: boolean) => {
+    const canAnimate = animate && latest.current.to.positions.length === next.positions.length;
+    latest.current = { from: canAnimate ? displayed() : next, to: next };
+    progress.current = canAnimate ? 0 : 1;
+    setBuffers(latest.current);
+  }, [displayed]);
+
+  const step = useCallback((delta: number, timing: TransitionTiming | null) => {
+    progress.current = advanceProgress(progress.current, 1, delta, timing);
+  }, []);
+
+  return { buffers, latest, progress, displayed, retarget, step };
+};
 
 const ParticleScene: React.FC<ParticleSceneProps> = ({ 
   text, 
@@ -22,168 +145,480 @@ const ParticleScene: React.FC<ParticleSceneProps> = ({
   isPaused,
   particleCount = PARTICLE_COUNT,
   color,
-  particleSize = 0.15
+  secondaryColor = color,
+  colorMode = 'solid',
+  particleSize = 0.15,
+  assignment = AssignmentStrategy.NEAREST,
+  shape = MorphState.SPHERE,
+  target = MorphState.TEXT,
+  image = null,
+  pointCloud = null,
+  imageOptions = DEFAULT_IMAGE_OPTIONS,
+  textLayout = DEFAULT_TEXT_LAYOUT,
+  extrusion = FLAT,
+  transition = DEFAULT_TRANSITION,
+  stagger = DEFAULT_STAGGER,
+  clock = null,
+  seed = DEFAULT_SEED,
+  physics = DEFAULT_PHYSICS,
+  audio = null,
+  audioSettings = DEFAULT_AUDIO,
+  onBeat,
+  reducedMotion = false,
+  trails = DEFAULT_TRAILS,
+  depthOfField = DEFAULT_EFFECTS.depthOfField,
+  mesh = DEFAULT_MESH,
+  meshGeometry = null,
+  onMorphStart,
+  onMorphComplete,
+  snapshotRef
 }) => {
-  const pointsRef = useRef<THREE.Points>(null);
-  const geometryRef = useRef<THREE.BufferGeometry>(null);
-  const materialRef = useRef<THREE.PointsMaterial>(null);
-  const { viewport } = useThree();
+  // The points, or the instanced mesh in mesh mode
+  const particlesRef = useRef<THREE.Object3D>(null);
+  const { viewport, gl } = useThree();
 
   // Track accumulated auto-rotation separately from mouse interaction
   const autoRotationY = useRef(0);
+  // Scene time, kept here rather than read from R3F so an external clock can
+  // take over (and hand back) without a jump
+  const elapsed = useRef(0);
 
   // Memoize target color
   const targetColor = useMemo(() => new THREE.Color(color), [color]);
+  const targetSecondary = useMemo(() => new THREE.Color(secondaryColor), [secondaryColor]);
 
   // 1. Source Data (Immutable)
-  const spherePositions = useMemo(() => {
-    return generateSpherePositions(particleCount, SPHERE_RADIUS);
-  }, [particleCount]);
-
-  const textPositions = useMemo(() => {
-    return sampleTextPositions(text, particleCount);
-  }, [text, particleCount]);
-
-  // 2. Display Buffer (Mutable)
-  const displayPositions = useMemo(() => {
-    return new Float32Array(spherePositions); 
-  }, [spherePositions]);
-  
-  // 3. Color Buffer (Mutable)
-  // Stores per-vertex lighting intensity
-  const colorAttribute = useMemo(() => {
-    const colors = new Float32Array(particleCount * 3);
-    colors.fill(1); // Initialize white
-    return colors;
-  }, [particleCount]);
+  const restPositions = useMemo(() => {
+    return generateShapePositions(shape, particleCount, { size: SHAPE_SIZE, random: createRandom(seed, 'rest') });
+  }, [shape, particleCount, seed]);
+
+  // Sampled text, images and point clouds fit the visible area of the z = 0 plane
+  // (rounded so small resizes don't trigger a resample)
+  const boundsWidth = Math.round(Math.min(viewport.width * 0.9, 24) * 2) / 2;
+  const boundsHeight = Math.round(viewport.height * 0.75 * 2) / 2;
+
+  // Text and images are sampled off the main thread; until the new layout
+  // arrives the particles keep heading for the previous one
+  const [sampled, setSampled] = useState(() => ({ target: emptyTarget(particleCount), hasContent: false }));
+
+  useLayoutEffect(() => {
+    if (isShape(target)) {
+      const positions = generateShapePositions(target, particleCount, { size: SHAPE_SIZE, random: createRandom(seed, 'target') });
+      setSampled({ target: { positions, colors: null, edges: null, order: null }, hasContent: true });
+      return;
+    }
+
+    // Point clouds are already points; resampling them is cheap enough to do here
+    if (target === MorphState.POINTS) {
+      setSampled(pointCloud
+        ? { target: samplePointCloud(pointCloud, particleCount, { maxWidth: boundsWidth, maxHeight: boundsHeight }, createRandom(seed, 'target')), hasContent: true }
+        : { target: emptyTarget(particleCount), hasContent: false });
+      return;
+    }
+
+    const hasContent = target === MorphState.IMAGE ? image !== null : text.trim().length > 0;
+    if (!hasContent) {
+      setSampled({ target: emptyTarget(particleCount), hasContent: false });
+      return;
+    }
+
+    const settings = { bounds: { maxWidth: boundsWidth, maxHeight: boundsHeight }, extrusion, count: particleCount, seed };
+    const request: SampleRequest = target === MorphState.IMAGE
+      ? { kind: 'image', image: image!, options: imageOptions, ...settings }
+      : { kind: 'text', text, layout: textLayout, ...settings };
+
+    let current = true;
+    getSampler().sample(request).then(
+      (result) => { if (current) setSampled({ target: result, hasContent: true }); },
+      () => {} // Keep the previous target
+    );
+    return () => { current = false; };
+  }, [target, text, image, pointCloud, imageOptions, textLayout, extrusion, boundsWidth, boundsHeight, particleCount, seed]);
+
+  // A new particle count reaches the resting shape at once, the target once
+  // resampled; either way the target waits for its assignment
+  const sampledTarget = sampled.target;
+  const sampleReady = sampled.hasContent && sampledTarget.positions.length === particleCount * 3;
+  const [goalReady, setGoalReady] = useState(false);
+  const hasTarget = sampleReady && goalReady;
+
+  // Animation State
+  const morphProgress = useRef(0); // 0 = resting shape, 1 = target
+  const isSettled = useRef(true);
+  const easing = transition ? EASINGS[transition.easing] : smoothStep;
+  const easeRef = useRef(easing);
+  easeRef.current = easing;
+  const rest = useMorphChannel(restPositions, easeRef);
+  const goal = useMorphChannel(restPositions, easeRef);
+
+  // The resting layout as it will be once its pending assignment lands
+  const restLayout = useRef<Promise<Float32Array>>(Promise.resolve(restPositions));
+
+  // Resting shape: tween from the shape on screen to the newly picked one,
+  // paired on the sampler's worker
+  useLayoutEffect(() => {
+    const current = rest.latest.current.to.positions;
+    if (current === restPositions) return;
+    if (current.length !== restPositions.length) {
+      rest.retarget(plainFrame(restPositions), true);
+      restLayout.current = Promise.resolve(restPositions);
+      return;
+    }
+
+    let active = true;
+    const job = getSampler().assign({
+      from: rest.displayed().positions,
+      target: { positions: restPositions, colors: null, edges: null, order: null },
+      strategy: assignment,
+      seed,
+      salt: 'assign-rest',
+    });
+    job.then((frame) => { if (active) rest.retarget(frame, true); }, () => {});
+    restLayout.current = job.then((frame) => frame.positions, () => restPositions);
+    return () => { active = false; };
+  }, [restPositions]);
+
+  useLayoutEffect(() => {
+    // Reset keeps the last target so particles fly back out of it; so does
+    // waiting for a resample, unless the particle count changed under it
+    if (!sampleReady) {
+      if (goal.latest.current.to.positions.length !== restPositions.length) {
+        goal.retarget(plainFrame(rest.latest.current.to.positions), false);
+      }
+      setGoalReady(false);
+      return;
+    }
+
+    // Pair against whatever the particles are resting on: the current target
+    // when going target → target, otherwise the resting shape. Until the
+    // worker answers the particles keep heading where they were.
+    let active = true;
+    restLayout.current
+      .then((restTo) => {
+        const onScreen = goal.latest.current.to.positions.length === sampledTarget.positions.length && morphProgress.current > 0;
+        return getSampler().assign({
+          from: onScreen && morphProgress.current > 0.5 ? goal.displayed().positions : restTo,
+          target: sampledTarget,
+          strategy: assignment,
+          seed,
+          salt: 'assign-target',
+        });
+      })
+      .then((frame) => {
+        if (!active) return;
+        const onScreen = goal.latest.current.to.positions.length === frame.positions.length && morphProgress.current > 0;
+        goal.retarget(frame, onScreen);
+        setGoalReady(true);
+      }, () => {}); // Keep the previous target
+    return () => { active = false; };
+  }, [sampledTarget, restPositions, assignment]);
+
+  // 2. Per-particle seed for the shader's in-flight jitter, and when each
+  // particle sets off in a staggered morph (from the layout it heads for)
+  const seeds = useMemo(() => {
+    const random = createRandom(seed, 'jitter');
+    const values = new Float32Array(particleCount);
+    for (let i = 0; i < particleCount; i++) values[i] = random() * 1000;
+    return values;
+  }, [particleCount, seed]);
+
+  const delays = useMemo(
+    () => staggerDelays(stagger.pattern, goal.buffers.to, createRandom(seed, 'stagger')),
+    [stagger.pattern, goal.buffers.to, seed]
+  );
+  const staggerAmount = stagger.pattern === 'none' ? 0 : Math.min(Math.max(stagger.amount, 0), MAX_STAGGER);
 
   // Texture for particles
   const sprite = useMemo(() => createGlowTexture(), []);
 
-  // Animation State
-  const morphProgress = useRef(0); // 0 = sphere, 1 = text
+  // 3. Uniforms (created once, mutated per frame)
+  const uniforms = useMemo(() => createParticleUniforms(color, sprite, particleSize, secondaryColor, colorMode), [sprite]);
+
+  useEffect(() => {
+    uniforms.uSize.value = particleSize;
+  }, [uniforms, particleSize]);
+
+  // Staggered particles ease on the GPU, each from its own start time
+  useEffect(() => {
+    sampleEasing(easing, uniforms.uEaseCurve.value);
+    uniforms.uStagger.value = staggerAmount;
+  }, [uniforms, easing, staggerAmount]);
+
+  // Gradients span the layouts being formed, not the ones being left
+  useEffect(() => {
+    planarBounds(rest.buffers.to.positions, uniforms.uRestBounds.value);
+    planarBounds(goal.buffers.to.positions, uniforms.uTargetBounds.value);
+  }, [uniforms, rest.buffers, goal.buffers]);
+
+  // A new color mode crossfades from the current one (mid-fade, from the newer)
+  useEffect(() => {
+    const mode = COLOR_MODES.indexOf(colorMode);
+    if (uniforms.uColorMode.value === mode) return;
+    uniforms.uPrevColorMode.value = uniforms.uColorMode.value;
+    uniforms.uColorMode.value = mode;
+    uniforms.uModeBlend.value = 0;
+  }, [uniforms, colorMode]);
+
+  // 4. Trails: recent morph states, replayed by the trail shader
+  const trailHistory = useMemo(() => createTrailHistory(), []);
+  const trailUniforms = useMemo(() => createTrailUniforms(uniforms, trailHistory), [uniforms, trailHistory]);
+  const trailState = useMemo(() => new THREE.Vector4(), []);
+  // Layouts the history was recorded against; older states don't apply to new ones
+  const trailLayouts = useRef<[MorphPair, MorphPair] | null>(null);
+  // Springs move particles away from where the morph state puts them
+  const showTrails = trails.mode === 'lines' && !physics.enabled;
+
+  useEffect(() => {
+    trailUniforms.uTrailLength.value = trails.length;
+  }, [trailUniforms, trails.length]);
+
+  // 5. Mesh particles: the same uniforms, plus instance size and spin
+  const meshUniforms = useMemo(() => createMeshUniforms(uniforms, mesh), [uniforms]);
+
+  useEffect(() => {
+    meshUniforms.uMeshSize.value = mesh.size;
+    meshUniforms.uSpin.value = mesh.spin;
+  }, [meshUniforms, mesh.size, mesh.spin]);
+
+  // 6. Depth of field: where the text plane sits in view space
+  const focusPoint = useMemo(() => new THREE.Vector3(), []);
+
+  // 7. Physics: CPU-integrated positions, uploaded every frame while enabled
+  const spring = useMemo(() => createSpringState(particleCount), [particleCount]);
+  const springMorphs = useMemo(() => new Float32Array(delays.length), [delays]);
+  const simAttribute = useRef<THREE.BufferAttribute>(null);
+  const simulated = useRef<SpringState | null>(null); // State last integrated, null = off
+  const pointerRay = useMemo(() => new THREE.Ray(), []);
+  const worldToLocal = useMemo(() => new THREE.Matrix4(), []);
+  const pointerInside = useRef(false);
+
+  // R3F keeps the last pointer position after it leaves, which would leave a dent
+  useEffect(() => {
+    const canvas = gl.domElement;
+    const enter = () => { pointerInside.current = true; };
+    const leave = () => { pointerInside.current = false; };
+    canvas.addEventListener('pointerenter', enter);
+    canvas.addEventListener('pointerleave', leave);
+    return () => {
+      canvas.removeEventListener('pointerenter', enter);
+      canvas.removeEventListener('pointerleave', leave);
+    };
+  }, [gl]);
+
+  // Snapshots blend the layouts the way the shaders do (springs replace the
+  // blend when physics is on); jitter and audio push are left out
+  useEffect(() => {
+    if (!snapshotRef) return;
+    snapshotRef.current = () => {
+      const restFrame = rest.displayed();
+      const goalFrame = goal.displayed();
+      const count = Math.min(restFrame.positions.length, goalFrame.positions.length) / 3;
+      const t = morphProgress.current;
+      const morphs = staggerAmount > 0 && delays.length === count
+        ? particleMorphs(delays, t, staggerAmount, easeRef.current, new Float32Array(count))
+        : null;
+      const ease = easeRef.current(t);
+      const restScale = uniforms.uRestScale.value;
+      const simulate = physics.enabled && spring.positions.length === count * 3;
+
+      const positions = new Float32Array(count * 3);
+      const colors = new Float32Array(count * 3);
+      const restPos = new THREE.Vector3();
+      const targetPos = new THREE.Vector3();
+      const targetColor = new THREE.Vector4();
+      const color = new THREE.Color();
+      for (let i = 0; i < count; i++) {
+        const morph = morphs ? morphs[i] : ease;
+        restPos.fromArray(restFrame.positions, i * 3).multiplyScalar(restScale);
+        targetPos.fromArray(goalFrame.positions, i * 3);
+        targetColor.fromArray(goalFrame.colors, i * 4);
+        if (simulate) positions.set(spring.positions.subarray(i * 3, i * 3 + 3), i * 3);
+        else restPos.clone().lerp(targetPos, morph).toArray(positions, i * 3);
+
+        particleColorAt(uniforms, restPos, targetPos, morph, goalFrame.edges[i], targetColor, color);
+        // Colors in files are sRGB, like the picker's
+        color.convertLinearToSRGB().toArray(colors, i * 3);
+      }
+      return { positions, colors };
+    };
+    return () => { snapshotRef.current = null; };
+  }, [snapshotRef, uniforms, delays, staggerAmount, physics.enabled, spring]);
+
+  useFrame((state, frameDelta) => {
+    if (isPaused || !particlesRef.current) return;
+
+    const delta = clock ? clock.delta : frameDelta;
+    elapsed.current = clock ? clock.elapsed : elapsed.current + delta;
 
-  useFrame((state, delta) => {
-    if (isPaused || !pointsRef.current || !geometryRef.current) return;
+    // --- Audio ---
+    // Bass pulses the resting shape, treble scatters, mids brighten
+    const levels = audio ? audio.sample(delta) : SILENCE;
+    if (levels.beat) onBeat?.();
 
     // --- Color Interpolation ---
-    if (materialRef.current) {
-        materialRef.current.color.lerp(targetColor, delta * 3);
-    }
+    uniforms.uColor.value.lerp(targetColor, delta * 3);
+    uniforms.uColor2.value.lerp(targetSecondary, delta * 3);
+    uniforms.uModeBlend.value += (1 - uniforms.uModeBlend.value) * Math.min(delta * 3, 1);
 
     // --- Morph Logic ---
-    const targetProgress = isMorphing && text.length > 0 ? 1 : 0;
-    
-    // Smooth dampening
-    const diff = targetProgress - morphProgress.current;
-    if (Math.abs(diff) > 0.001) {
-      morphProgress.current += diff * Math.min(delta * MORPH_SPEED, 1);
-    } else {
-        morphProgress.current = targetProgress;
-    }
+    const targetProgress = isMorphing && hasTarget ? 1 : 0;
+    morphProgress.current = advanceProgress(morphProgress.current, targetProgress, delta, transition);
+
+    // Shape → shape and target → target transitions run on their own progress
+    rest.step(delta, transition);
+    goal.step(delta, transition);
 
     const t = morphProgress.current;
-    const ease = t * t * (3 - 2 * t); // SmoothStep
+    const ease = easeRef.current(t);
+
+    // Report motion starting and settling (morph, rest shape and target swaps alike)
+    const settled = t === targetProgress && rest.progress.current === 1 && goal.progress.current === 1;
+    if (settled !== isSettled.current) {
+      isSettled.current = settled;
+      if (settled) onMorphComplete?.();
+      else onMorphStart?.();
+    }
 
     // --- Rotation ---
+    // Reduced motion keeps the current angle and ignores the pointer
+    const motion = reducedMotion ? 0 : 1;
     const sphereRotationSpeed = 0.1 * (1 - ease * 0.8);
-    autoRotationY.current += sphereRotationSpeed * delta;
+    autoRotationY.current += sphereRotationSpeed * delta * motion;
 
-    const parallaxX = state.pointer.y * 0.3; 
-    const parallaxY = state.pointer.x * 0.3; 
+    const parallaxX = state.pointer.y * 0.3 * motion; 
+    const parallaxY = state.pointer.x * 0.3 * motion; 
 
-    pointsRef.current.rotation.y = autoRotationY.current + (parallaxY * 0.5);
-    const wobble = Math.sin(state.clock.elapsedTime * 0.5) * 0.1 * (1 - ease);
-    pointsRef.current.rotation.x = wobble - (parallaxX * 0.5);
+    particlesRef.current.rotation.y = autoRotationY.current + (parallaxY * 0.5);
+    const wobble = Math.sin(elapsed.current * 0.5) * 0.1 * (1 - ease) * motion;
+    particlesRef.current.rotation.x = wobble - (parallaxX * 0.5);
 
-    // --- Lighting Calc Prep ---
+    // --- Shader Uniforms ---
     // Convert normalized mouse (-1 to 1) to approximate world coordinates at z=0 plane
-    const mouseX = (state.pointer.x * viewport.width) / 2;
-    const mouseY = (state.pointer.y * viewport.height) / 2;
-    const lightZ = 2.0; // Light hovers slightly in front
-
-    // --- Position & Color Update ---
-    const positions = geometryRef.current.attributes.position.array as Float32Array;
-    const colors = geometryRef.current.attributes.color.array as Float32Array;
-    
-    if (positions.length !== particleCount * 3) return;
-
-    for (let i = 0; i < particleCount; i++) {
-      const i3 = i * 3;
-
-      // READ from sources
-      const sx = spherePositions[i3];
-      const sy = spherePositions[i3 + 1];
-      const sz = spherePositions[i3 + 2];
-
-      const tx = textPositions[i3];
-      const ty = textPositions[i3 + 1];
-      const tz = textPositions[i3 + 2];
-
-      // Calculate noise
-      const wobbleIntensity = Math.sin(t * Math.PI) * 2; 
-      const noiseX = (Math.random() - 0.5) * wobbleIntensity * 0.2;
-      const noiseY = (Math.random() - 0.5) * wobbleIntensity * 0.2;
-      const noiseZ = (Math.random() - 0.5) * wobbleIntensity * 0.5;
-
-      // WRITE to display buffer
-      const px = sx * (1 - ease) + tx * ease + noiseX;
-      const py = sy * (1 - ease) + ty * ease + noiseY;
-      const pz = sz * (1 - ease) + tz * ease + noiseZ;
-      
-      positions[i3]     = px;
-      positions[i3 + 1] = py;
-      positions[i3 + 2] = pz;
-      
-      // --- Dynamic Lighting ---
-      // Apply a "flashlight" effect based on mouse distance
-      // We use the particle's local position vs mouse world position for a "scanner" effect
-      const distToMouseSq = (px - mouseX) ** 2 + (py - mouseY) ** 2 + (pz - lightZ) ** 2;
-      
-      // Ambient (0.5) + Light Source (based on distance)
-      // Divisor controls falloff sharpness. 
-      const lightIntensity = 0.5 + (25.0 / (distToMouseSq + 10.0));
-      
-      colors[i3]     = lightIntensity;
-      colors[i3 + 1] = lightIntensity;
-      colors[i3 + 2] = lightIntensity;
+    uniforms.uPointer.value.set(
+      (state.pointer.x * viewport.width) / 2,
+      (state.pointer.y * viewport.height) / 2
+    );
+    const restT = rest.progress.current;
+    const goalT = goal.progress.current;
+    uniforms.uMorph.value = ease;
+    uniforms.uProgress.value = t;
+    uniforms.uRestBlend.value = easeRef.current(restT);
+    uniforms.uTargetBlend.value = easeRef.current(goalT);
+    uniforms.uWobble.value = Math.max(
+      Math.sin(t * Math.PI),
+      Math.sin(restT * Math.PI) * (1 - ease),
+      Math.sin(goalT * Math.PI) * ease
+    ) * (physics.enabled ? 0 : 2) * motion; // Springs bring their own motion
+    uniforms.uTime.value = elapsed.current;
+    uniforms.uRestScale.value = 1 + scaledLevel(levels.bass, audioSettings) * audioSettings.pulse;
+    uniforms.uAudioPush.value = scaledLevel(levels.treble, audioSettings) * audioSettings.displacement;
+    uniforms.uAudioColor.value = scaledLevel(levels.mid, audioSettings) * audioSettings.color;
+    // Same size attenuation factor PointsMaterial uses (half the drawing buffer height)
+    uniforms.uScale.value = (state.size.height * state.viewport.dpr) / 2;
+
+    // --- Depth of Field ---
+    focusPoint.setFromMatrixPosition(particlesRef.current.matrixWorld).applyMatrix4(state.camera.matrixWorldInverse);
+    uniforms.uFocusDistance.value = -focusPoint.z;
+    uniforms.uFocusRange.value = depthOfField.range;
+    uniforms.uBokeh.value = depthOfField.enabled ? depthOfField.bokeh : 0;
+
+    // --- Trails ---
+    if (showTrails) {
+      trailState.set(t, uniforms.uRestBlend.value, uniforms.uTargetBlend.value, uniforms.uRestScale.value);
+      particlesRef.current.updateMatrixWorld();
+      const layouts = trailLayouts.current;
+      if (!layouts || layouts[0] !== rest.latest.current || layouts[1] !== goal.latest.current) {
+        resetTrail(trailHistory, trailState, particlesRef.current.matrixWorld);
+        trailLayouts.current = [rest.latest.current, goal.latest.current];
+      } else {
+        recordTrail(trailHistory, trailState, particlesRef.current.matrixWorld, delta);
+      }
+    } else {
+      trailLayouts.current = null;
     }
 
-    geometryRef.current.attributes.position.needsUpdate = true;
-    geometryRef.current.attributes.color.needsUpdate = true;
+    // --- Physics ---
+    uniforms.uSimulate.value = physics.enabled ? 1 : 0;
+    if (!physics.enabled) {
+      simulated.current = null;
+      return;
+    }
+
+    const targets: SpringTargets = {
+      prevRest: rest.latest.current.from.positions,
+      rest: rest.latest.current.to.positions,
+      prevTarget: goal.latest.current.from.positions,
+      target: goal.latest.current.to.positions,
+      restBlend: uniforms.uRestBlend.value,
+      restScale: uniforms.uRestScale.value,
+      targetBlend: uniforms.uTargetBlend.value,
+      morph: ease,
+      morphs: staggerAmount > 0 ? particleMorphs(delays, t, staggerAmount, easeRef.current, springMorphs) : null,
+    };
+
+    // Switched on (or resized): start at rest from what's on screen
+    if (simulated.current !== spring) {
+      settleSprings(spring, targets);
+      simulated.current = spring;
+    }
+
+    let ray: THREE.Ray | null = null;
+    if (pointerInside.current) {
+      state.raycaster.setFromCamera(state.pointer, state.camera);
+      worldToLocal.copy(particlesRef.current.matrixWorld).invert();
+      ray = pointerRay.copy(state.raycaster.ray).applyMatrix4(worldToLocal);
+    }
+
+    stepSprings(spring, targets, physics, ray, delta);
+    if (simAttribute.current) simAttribute.current.needsUpdate = true;
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry ref={geometryRef}>
-        <bufferAttribute
-          attach="attributes-position"
-          count={particleCount}
-          array={displayPositions}
-          itemSize={3}
-          usage={THREE.DynamicDrawUsage}
-        />
-        <bufferAttribute
-          attach="attributes-color"
-          count={particleCount}
-          array={colorAttribute}
-          itemSize={3}
-          usage={THREE.DynamicDrawUsage}
+    <>
+      {mesh.renderer === 'mesh' ? (
+        <ParticleMesh
+          rest={rest.buffers}
+          goal={goal.buffers}
+          seeds={seeds}
+          delays={delays}
+          simPositions={spring.positions}
+          uniforms={meshUniforms}
+          settings={mesh}
+          meshRef={particlesRef}
+          simAttribute={simAttribute}
+          geometry={meshGeometry}
         />
-      </bufferGeometry>
-      <pointsMaterial
-        ref={materialRef}
-        size={particleSize}
-        map={sprite}
-        transparent
-        opacity={0.9}
-        alphaTest={0.01}
-        blending={THREE.AdditiveBlending}
-        depthWrite={false}
-        vertexColors={true} // Enable vertex colors to modulate brightness
-        color={new THREE.Color(color)} 
-      />
-    </points>
+      ) : (
+        <points ref={particlesRef as React.RefObject<THREE.Points>} frustumCulled={false}>
+          <bufferGeometry>
+            <bufferAttribute attach="attributes-aPrevRest" args={[rest.buffers.from.positions, 3]} />
+            <bufferAttribute attach="attributes-position" args={[rest.buffers.to.positions, 3]} />
+            <bufferAttribute attach="attributes-aPrevTarget" args={[goal.buffers.from.positions, 3]} />
+            <bufferAttribute attach="attributes-aTarget" args={[goal.buffers.to.positions, 3]} />
+            <bufferAttribute attach="attributes-aPrevTargetColor" args={[goal.buffers.from.colors, 4]} />
+            <bufferAttribute attach="attributes-aTargetColor" args={[goal.buffers.to.colors, 4]} />
+            <bufferAttribute attach="attributes-aPrevTargetEdge" args={[goal.buffers.from.edges, 1]} />
+            <bufferAttribute attach="attributes-aTargetEdge" args={[goal.buffers.to.edges, 1]} />
+            <bufferAttribute attach="attributes-aSeed" args={[seeds, 1]} />
+            <bufferAttribute attach="attributes-aDelay" args={[delays, 1]} />
+            <bufferAttribute ref={simAttribute} attach="attributes-aSimPosition" args={[spring.positions, 3]} usage={THREE.DynamicDrawUsage} />
+          </bufferGeometry>
+          {/* Through the constructor so the material keeps these objects (R3F copies a uniforms prop) */}
+          <shaderMaterial
+            args={[{ uniforms }]}
+            vertexShader={particleVertexShader}
+            fragmentShader={particleFragmentShader}
+            transparent
+            blending={THREE.AdditiveBlending}
+            depthWrite={false}
+            fog
+          />
+        </points>
+      )}
+      {showTrails && trails.length > 1 && (
+        <ParticleTrails rest={rest.buffers} goal={goal.buffers} delays={delays} uniforms={trailUniforms} length={trails.length} />
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import * as THREE from 'three';
+import { MorphPair } from '../types';
+import { trailVertexShader, trailFragmentShader, TrailUniforms } from '../utils/particleShader';
+
+interface ParticleTrailsProps {
+  rest: MorphPair;
+  goal: MorphPair;
+  delays: Float32Array; // Stagger start per particle, 0-1
+  uniforms: TrailUniforms;
+  length: number; // Steps of history drawn, 2 or more
+}
+
+/**
+ * Fading line trails behind the particles: one strip of `length - 1`
+ * segments per particle, instanced over the same morph buffers the points
+ * use. Step indices are the strip's only per-vertex data.
+ */
+const ParticleTrails: React.FC<ParticleTrailsProps> = ({ rest, goal, delays, uniforms, length }) => {
+  const steps = useMemo(() => {
+    const values = new Float32Array((length - 1) * 6);
+    for (let s = 0; s < length - 1; s++) {
+      values[s * 6] = s;
+      values[s * 6 + 3] = s + 1;
+    }
+    return values;
+  }, [length]);
+
+  return (
+    <lineSegments frustumCulled={false}>
+      <instancedBufferGeometry instanceCount={rest.to.positions.length / 3}>
+        <bufferAttribute attach="attributes-position" args={[steps, 3]} />
+        <instancedBufferAttribute attach="attributes-aPrevRest" args={[rest.from.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aRest" args={[rest.to.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aPrevTarget" args={[goal.from.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aTarget" args={[goal.to.positions, 3]} />
+        <instancedBufferAttribute attach="attributes-aPrevTargetColor" args={[goal.from.colors, 4]} />
+        <instancedBufferAttribute attach="attributes-aTargetColor" args={[goal.to.colors, 4]} />
+        <instancedBufferAttribute attach="attributes-aPrevTargetEdge" args={[goal.from.edges, 1]} />
+        <instancedBufferAttribute attach="attributes-aTargetEdge" args={[goal.to.edges, 1]} />
+        <instancedBufferAttribute attach="attributes-aDelay" args={[delays, 1]} />
+      </instancedBufferGeometry>
+      {/* Constructor args keep the shared uniform objects; a uniforms prop is copied */}
+      <shaderMaterial
+        args={[{ uniforms }]}
+        vertexShader={trailVertexShader}
+        fragmentShader={trailFragmentShader}
+        transparent
+        blending={THREE.AdditiveBlending}
+        depthWrite={false}
+        fog
+      />
+    </lineSegments>
+  );
+};
+
+export default ParticleTrails;
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { Download, FolderOpen, Link, Plus, Trash2 } from 'lucide-react';
+import { SceneConfig, ScenePreset } from '../types';
+import { parsePreset, serializePreset } from '../utils/sceneConfig';
+
+interface PresetManagerProps {
+  presets: ScenePreset[];
+  onChange: (presets: ScenePreset[]) => void;
+  config: SceneConfig;               // Current scene, saved by "add"
+  onApply: (config: SceneConfig) => void;
+}
+
+const iconButtonClass = 'p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/10';
+
+/**
+ * Settings section for named scene presets: save the current scene, load,
+ * download or delete saved ones, import preset files and copy a share link.
+ */
+const PresetManager: React.FC<PresetManagerProps> = ({ presets, onChange, config, onApply }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Saving under an existing name overwrites that preset
+  const addPreset = (preset: ScenePreset) => {
+    onChange([...presets.filter((p) => p.name !== preset.name), preset]);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    addPreset({ name: trimmed, config });
+    setName('');
+  };
+
+  const handleDownload = (preset: ScenePreset) => {
+    const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${preset.name}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const preset = parsePreset(JSON.parse(await file.text()));
+      addPreset(preset);
+      onApply(preset.config);
+      setMessage('');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not read preset');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setMessage('Link copied');
+    } catch {
+      setMessage('Copy the address bar to share');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Presets</h3>
+        <div className="flex gap-1">
+          <button onClick={handleCopyLink} className={iconButtonClass} title="Copy share link">
+            <Link size={14} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import preset JSON">
+            <FolderOpen size={14} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Preset name"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white outline-none focus:border-white/30"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-2 rounded-lg bg-white/10 hover:bg-white/20 border border-white/20 text-white disabled:opacity-30"
+          title="Save current scene"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {message && <div className="text-[10px] font-mono text-gray-400 mb-2">{message}</div>}
+
+      <div className="space-y-1">
+        {presets.map((preset) => (
+          <div key={preset.name} className="flex items-center gap-1">
+            <button
+              onClick={() => onApply(preset.config)}
+              className="flex-1 min-w-0 truncate text-left text-xs text-gray-300 hover:text-white px-2 py-1 rounded-md hover:bg-white/5"
+            >
+              {preset.name}
+            </button>
+            <button
+              onClick={() => handleDownload(preset)}
+              className={iconButtonClass}
+              title="Download JSON"
+            >
+              <Download size={12} />
+            </button>
+            <button
+              onClick={() => onChange(presets.filter((p) => p !== preset))}
+              className="p-1 rounded-md text-gray-500 hover:text-red-400"
+              title="Delete preset"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+        {presets.length === 0 && <div className="text-[10px] text-gray-500">No saved presets yet.</div>}
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, RotateCcw, Square, Clapperboard } from 'lucide-react';
+import { useRemoteController } from '../hooks/useRemote';
+import { remoteUrlFromLocation } from '../utils/remote';
+import { MIN_PARTICLES, MAX_PARTICLES } from '../utils/sceneConfig';
+
+const SWATCHES = ['#4cc9f0', '#f72585', '#ffd700', '#7bf1a8', '#ff6b35', '#8b5cf6', '#ffffff'];
+
+const STATUS_LABELS = { connecting: 'Connecting…', open: 'Connected', closed: 'Reconnecting…' };
+
+const buttonClass = 'flex-1 flex items-center justify-center gap-2 py-4 rounded-2xl border text-sm font-semibold uppercase tracking-wider transition-colors';
+
+/**
+ * Phone-sized remote for a display running the app elsewhere (open the app
+ * with `?controller`, plus `&remote=ws://…` to go through the relay).
+ */
+const RemoteController: React.FC = () => {
+  const [url] = useState(remoteUrlFromLocation);
+  const { status, state, send } = useRemoteController(url);
+  const [text, setText] = useState('');
+  const [count, setCount] = useState(8000);
+
+  // Follow the display's count unless the slider is being dragged
+  const [dragging, setDragging] = useState(false);
+  useEffect(() => {
+    if (state && !dragging) setCount(state.particleCount);
+  }, [state?.particleCount, dragging]);
+
+  const morph = () => {
+    if (!text.trim()) return;
+    send({ type: 'morph', text });
+  };
+
+  const commitCount = () => {
+    setDragging(false);
+    send({ type: 'particleCount', count });
+  };
+
+  const connected = status === 'open' && state !== null;
+
+  return (
+    <div className="h-full w-full bg-[#050510] text-white p-4 flex flex-col gap-4 max-w-md mx-auto overflow-y-auto">
+      <header className="flex justify-between items-center">
+        <h1 className="text-lg font-bold tracking-tight">Particle Remote</h1>
+        <div className="flex items-center gap-2 text-[10px] font-mono uppercase text-gray-400">
+          <span className={`w-2 h-2 rounded-full ${connected ? 'bg-green-400' : status === 'open' ? 'bg-yellow-400' : 'bg-red-400'}`} />
+          {status === 'open' && !state ? 'Waiting for display…' : STATUS_LABELS[status]}
+        </div>
+      </header>
+
+      {state && (
+        <div className="rounded-2xl bg-white/5 border border-white/10 p-3 text-xs font-mono text-gray-400 space-y-1">
+          <div className="flex justify-between"><span>SHOWING</span><span className="text-white truncate ml-4">{state.isMorphing ? state.text || 'Target' : 'Resting shape'}</span></div>
+          <div className="flex justify-between"><span>PARTICLES</span><span className="text-white">{state.particleCount.toLocaleString()}</span></div>
+          <div className="flex justify-between">
+            <span>SEQUENCE</span>
+            <span className="text-white">{state.sequence.name}{state.sequence.playing ? ' · playing' : ''}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span>COLOR</span>
+            <span className="w-4 h-4 rounded-full border border-white/20" style={{ backgroundColor: state.color }} />
+          </div>
+        </div>
+      )}
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          morph();
+        }}
+      >
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Text to morph into"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-2xl px-4 py-4 text-base outline-none focus:border-white/30"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim()}
+          className="px-5 rounded-2xl bg-cyan-500/20 border border-cyan-400/60 text-cyan-300 font-semibold uppercase text-sm disabled:opacity-30"
+        >
+          Morph
+        </button>
+      </form>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => send({ type: 'pause', paused: !state?.isPaused })}
+          className={`${buttonClass} ${state?.isPaused ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-300'}`}
+        >
+          {state?.isPaused ? <Play size={18} /> : <Pause size={18} />}
+          {state?.isPaused ? 'Resume' : 'Pause'}
+        </button>
+        <button onClick={() => send({ type: 'reset' })} className={`${buttonClass} bg-white/5 border-white/10 text-gray-300`}>
+          <RotateCcw size={18} />
+          Reset
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => send({ type: 'sequence', action: state?.sequence.playing ? 'stop' : 'play' })}
+          className={`${buttonClass} ${state?.sequence.playing ? 'bg-purple-500/20 border-purple-400/60 text-purple-300' : 'bg-white/5 border-white/10 text-gray-300'}`}
+        >
+          {state?.sequence.playing ? <Square size={18} /> : <Clapperboard size={18} />}
+          {state?.sequence.playing ? 'Stop Sequence' : 'Play Sequence'}
+        </button>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-mono uppercase text-gray-400 mb-2">Color</div>
+        <div className="flex flex-wrap gap-3 items-center">
+          {SWATCHES.map((swatch) => (
+            <button
+              key={swatch}
+              onClick={() => send({ type: 'color', color: swatch })}
+              className={`w-10 h-10 rounded-full border-2 transition-transform ${state?.color === swatch ? 'border-white scale-110' : 'border-transparent'}`}
+              style={{ backgroundColor: swatch }}
+              aria-label={swatch}
+            />
+          ))}
+          <input
+            type="color"
+            value={state?.color ?? SWATCHES[0]}
+            onChange={(e) => send({ type: 'color', color: e.target.value })}
+            className="w-10 h-10 rounded-full bg-transparent border border-white/20 cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-[10px] font-mono uppercase text-gray-400 mb-2">
+          <span>Particles</span>
+          <span className="text-cyan-400">{count.toLocaleString()}</span>
+        </div>
+        <input
+          type="range"
+          min={MIN_PARTICLES}
+          max={MAX_PARTICLES}
+          step={1000}
+          value={count}
+          onChange={(e) => {
+            setDragging(true);
+            setCount(Number(e.target.value));
+          }}
+          onPointerUp={commitCount}
+          onKeyUp={commitCount}
+          className="w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RemoteController;
@@ -0,0 +1,240 @@
+import React, { useRef, useState } from 'react';
+import { Play, Pause, Square, Repeat, Download, FolderOpen, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { MorphState, Sequence, SequenceStep, ShapeKind } from '../types';
+import { createStep, parseSequence, serializeSequence, stepStart } from '../utils/sequence';
+import { EASING_NAMES } from '../utils/easing';
+import { SequencePlayer } from '../hooks/useSequencePlayer';
+
+interface SequencePanelProps {
+  sequence: Sequence;
+  onChange: (sequence: Sequence) => void;
+  player: SequencePlayer;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  shapes: { name: string; value: ShapeKind }[];
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+const fieldClass = 'bg-white/5 border border-white/10 rounded-md px-1.5 py-1 text-[11px] text-white outline-none focus:border-white/30';
+
+const SequencePanel: React.FC<SequencePanelProps> = ({
+  sequence,
+  onChange,
+  player,
+  isPaused,
+  onTogglePause,
+  shapes
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState('');
+
+  const updateStep = (index: number, patch: Partial<SequenceStep>) => {
+    const steps = sequence.steps.map((step, i) => (i === index ? { ...step, ...patch } : step));
+    onChange({ ...sequence, steps });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sequence.steps.length) return;
+    const steps = [...sequence.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    onChange({ ...sequence, steps });
+  };
+
+  const removeStep = (index: number) => {
+    onChange({ ...sequence, steps: sequence.steps.filter((_, i) => i !== index) });
+  };
+
+  const addStep = () => {
+    const last = sequence.steps[sequence.steps.length - 1];
+    onChange({ ...sequence, steps: [...sequence.steps, createStep(last ? { color: last.color } : {})] });
+  };
+
+  const handleSave = () => {
+    const blob = new Blob([serializeSequence(sequence)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${sequence.name || 'sequence'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoad = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      player.stop();
+      onChange(parseSequence(JSON.parse(await file.text())));
+      setLoadError('');
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not read sequence');
+    }
+  };
+
+  const isPlaying = player.isActive && !isPaused;
+
+  return (
+    <div className="pointer-events-auto absolute top-24 left-6 bg-black/60 backdrop-blur-xl border border-white/10 p-4 rounded-xl shadow-2xl w-80 max-h-[calc(100vh-8rem)] flex flex-col animate-in fade-in slide-in-from-top-4 duration-200 z-50">
+      <div className="flex justify-between items-center mb-3">
+        <input
+          value={sequence.name}
+          onChange={(e) => onChange({ ...sequence, name: e.target.value })}
+          className="bg-transparent text-sm font-semibold text-gray-300 uppercase tracking-wider outline-none w-40"
+        />
+        <div className="flex gap-1">
+          <button onClick={handleSave} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10" title="Save as JSON">
+            <Download size={14} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-white/10" title="Load JSON">
+            <FolderOpen size={14} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleLoad(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {loadError && <div className="text-[10px] font-mono text-red-400 mb-2">{loadError}</div>}
+
+      {/* Transport */}
+      <div className="flex items-center gap-2 mb-2">
+        <button
+          onClick={() => (player.isActive ? onTogglePause() : player.play())}
+          className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 text-white"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button
+          onClick={player.stop}
+          className="flex items-center justify-center w-8 h-8 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 text-white"
+          title="Stop"
+        >
+          <Square size={12} />
+        </button>
+        <button
+          onClick={() => onChange({ ...sequence, loop: !sequence.loop })}
+          className={`flex items-center justify-center w-8 h-8 rounded-full border transition-colors ${sequence.loop ? 'bg-cyan-500/20 border-cyan-400/60 text-cyan-300' : 'bg-white/5 border-white/10 text-gray-400'}`}
+          title="Loop"
+        >
+          <Repeat size={14} />
+        </button>
+        <span className="ml-auto text-[10px] font-mono text-gray-400">
+          {formatTime(player.position)} / {formatTime(player.duration)}
+        </span>
+      </div>
+
+      {/* Scrub */}
+      <input
+        type="range"
+        min={0}
+        max={player.duration || 1}
+        step={0.05}
+        value={player.position}
+        onChange={(e) => player.seek(Number(e.target.value))}
+        disabled={sequence.steps.length === 0}
+        className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-cyan-500 mb-3"
+      />
+
+      {/* Steps */}
+      <div className="flex-1 overflow-y-auto -mx-1 px-1 space-y-2">
+        {sequence.steps.map((step, index) => (
+          <div
+            key={step.id}
+            className={`p-2 rounded-lg border transition-colors ${player.isActive && player.stepIndex === index ? 'border-cyan-400/60 bg-cyan-400/5' : 'border-white/10 bg-white/[0.02]'}`}
+          >
+            <div className="flex gap-1.5 mb-1.5">
+              <select
+                value={step.target}
+                onChange={(e) => updateStep(index, { target: e.target.value as MorphState })}
+                className={`${fieldClass} w-20`}
+              >
+                <option value={MorphState.TEXT} className="bg-black">Text</option>
+                {shapes.map((shape) => (
+                  <option key={shape.value} value={shape.value} className="bg-black">{shape.name}</option>
+                ))}
+              </select>
+              <input
+                value={step.text}
+                onChange={(e) => updateStep(index, { text: e.target.value })}
+                disabled={step.target !== MorphState.TEXT}
+                placeholder="Text"
+                className={`${fieldClass} flex-1 min-w-0 disabled:opacity-30`}
+              />
+              <input
+                type="color"
+                value={step.color}
+                onChange={(e) => updateStep(index, { color: e.target.value })}
+                className="w-7 h-7 rounded-md bg-transparent border border-white/10 cursor-pointer"
+              />
+            </div>
+            <div className="flex gap-1.5 items-center text-[10px] font-mono text-gray-500">
+              <label className="flex items-center gap-1" title="Transition (s)">
+                IN
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={step.transition}
+                  onChange={(e) => updateStep(index, { transition: Math.max(0, Number(e.target.value)) })}
+                  className={`${fieldClass} w-12`}
+                />
+              </label>
+              <label className="flex items-center gap-1" title="Hold (s)">
+                HOLD
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={step.hold}
+                  onChange={(e) => updateStep(index, { hold: Math.max(0, Number(e.target.value)) })}
+                  className={`${fieldClass} w-12`}
+                />
+              </label>
+              <select
+                value={step.easing}
+                onChange={(e) => updateStep(index, { easing: e.target.value as SequenceStep['easing'] })}
+                className={`${fieldClass} flex-1 min-w-0`}
+              >
+                {EASING_NAMES.map((name) => (
+                  <option key={name} value={name} className="bg-black">{name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-end gap-1 mt-1.5">
+              <button onClick={() => player.seek(stepStart(sequence, index))} className="px-1.5 text-[10px] font-mono text-gray-500 hover:text-white" title="Jump to step">
+                GO
+              </button>
+              <button onClick={() => moveStep(index, -1)} className="p-0.5 text-gray-500 hover:text-white" title="Move up">
+                <ChevronUp size={12} />
+              </button>
+              <button onClick={() => moveStep(index, 1)} className="p-0.5 text-gray-500 hover:text-white" title="Move down">
+                <ChevronDown size={12} />
+              </button>
+              <button onClick={() => removeStep(index)} className="p-0.5 text-gray-500 hover:text-red-400" title="Remove step">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addStep}
+        className="mt-3 flex items-center justify-center gap-1 py-1.5 rounded-lg border border-dashed border-white/20 text-[10px] font-mono uppercase text-gray-400 hover:text-white hover:border-white/40"
+      >
+        <Plus size={12} /> Add Step
+      </button>
+    </div>
+  );
+};
+
+export default SequencePanel;
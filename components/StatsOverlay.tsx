@@ -0,0 +1,35 @@
+import React from 'react';
+import { FrameStats } from '../types';
+
+interface StatsOverlayProps {
+  stats: FrameStats | null;
+  particleCount: number; // Rendered, i.e. after adaptive scaling
+  level: number | null;  // Adaptive quality level, null when adaptive is off
+}
+
+/**
+ * Small fixed readout of rendering cost for tuning and troubleshooting.
+ */
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ stats, particleCount, level }) => {
+  const rows: [string, string][] = [
+    ['FPS', stats ? stats.fps.toFixed(0) : '–'],
+    ['FRAME', stats ? `${stats.frameTime.toFixed(1)} ms` : '–'],
+    ['PARTICLES', particleCount.toLocaleString()],
+    ['DRAW CALLS', stats ? String(stats.drawCalls) : '–'],
+    ['DPR', stats ? stats.dpr.toFixed(2) : '–'],
+  ];
+  if (level !== null) rows.push(['QUALITY', level === 0 ? 'FULL' : `-${level}`]);
+
+  return (
+    <div className="absolute bottom-6 left-6 z-20 pointer-events-none bg-black/60 border border-white/10 rounded-lg px-3 py-2 font-mono text-[10px] text-gray-300 select-none">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-gray-500">{label}</span>
+          <span className="text-cyan-400">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StatsOverlay;
@@ -0,0 +1,59 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { AudioAnalysis, openMicrophone, openAudioFile } from '../utils/audio';
+
+export type AudioSource = 'off' | 'mic' | 'file';
+
+/**
+ * Owns the one live audio input (microphone or a looping file). Switching
+ * source closes the previous one; so does unmounting. A source that finishes
+ * opening after another was picked (or after unmounting) is closed at once.
+ */
+export const useAudioInput = () => {
+  const [source, setSource] = useState<AudioSource>('off');
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState('');
+  const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  const current = useRef<AudioAnalysis | null>(null);
+  // Bumped by every open, stop and unmount; only the latest open may land
+  const request = useRef(0);
+
+  const replace = useCallback((next: AudioAnalysis | null, nextSource: AudioSource, name = '') => {
+    current.current?.close();
+    current.current = next;
+    setAnalysis(next);
+    setSource(nextSource);
+    setFileName(name);
+  }, []);
+
+  const open = useCallback(async (opening: Promise<AudioAnalysis>, nextSource: AudioSource, name = '') => {
+    const id = ++request.current;
+    try {
+      const next = await opening;
+      if (id !== request.current) {
+        next.close();
+        return;
+      }
+      replace(next, nextSource, name);
+      setError('');
+    } catch (err) {
+      if (id === request.current) setError(err instanceof Error ? err.message : 'Could not start audio');
+    }
+  }, [replace]);
+
+  const startMicrophone = useCallback(() => open(openMicrophone(), 'mic'), [open]);
+
+  const playFile = useCallback((file: File) => open(openAudioFile(file), 'file', file.name), [open]);
+
+  const stop = useCallback(() => {
+    request.current++;
+    replace(null, 'off');
+    setError('');
+  }, [replace]);
+
+  useEffect(() => () => {
+    request.current++;
+    current.current?.close();
+  }, []);
+
+  return { source, fileName, error, analysis, startMicrophone, playFile, stop };
+};
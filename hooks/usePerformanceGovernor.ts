@@ -0,0 +1,26 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { FrameStats } from '../types';
+import { createGovernor, Governor, QUALITY_LEVELS } from '../utils/performance';
+
+/**
+ * Collects frame stats from the canvas and, while `enabled`, turns them into
+ * a quality level aiming for `targetFps`. Switching it on or changing the
+ * target starts again from full quality.
+ */
+export const usePerformanceGovernor = (enabled: boolean, targetFps: number) => {
+  const [stats, setStats] = useState<FrameStats | null>(null);
+  const [level, setLevel] = useState(0);
+  const governor = useRef<Governor | null>(null);
+
+  useEffect(() => {
+    governor.current = enabled ? createGovernor(1000 / targetFps) : null;
+    setLevel(0);
+  }, [enabled, targetFps]);
+
+  const report = useCallback((next: FrameStats, interval: number) => {
+    setStats(next);
+    if (governor.current) setLevel(governor.current.update(next.frameTime, interval));
+  }, []);
+
+  return { stats, level, quality: QUALITY_LEVELS[level], report };
+};
@@ -0,0 +1,72 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { RemoteConnection, createRemoteConnection } from '../utils/remote';
+import { RemoteCommand, RemoteState, RemoteStatus } from '../types';
+
+/**
+ * The display end of remote control: runs commands as they arrive and
+ * reports `state` back whenever it changes (and to controllers that join).
+ */
+export const useRemoteDisplay = (url: string | null, state: RemoteState, onCommand: (command: RemoteCommand) => void) => {
+  const [status, setStatus] = useState<RemoteStatus>('connecting');
+  const connection = useRef<RemoteConnection | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(() => {
+    const report = () => connection.current?.send({ kind: 'state', state: stateRef.current });
+    connection.current = createRemoteConnection({
+      url,
+      onStatus: setStatus,
+      onOpen: report,
+      onMessage: (message) => {
+        if (message.kind === 'command') onCommandRef.current(message.command);
+        else if (message.kind === 'hello') report();
+      },
+    });
+    return () => {
+      connection.current?.close();
+      connection.current = null;
+    };
+  }, [url]);
+
+  const serialized = JSON.stringify(state);
+  useEffect(() => {
+    connection.current?.send({ kind: 'state', state: stateRef.current });
+  }, [serialized]);
+
+  return status;
+};
+
+/**
+ * The controller end: sends commands and keeps the last state a display
+ * reported (null until one answers).
+ */
+export const useRemoteController = (url: string | null) => {
+  const [status, setStatus] = useState<RemoteStatus>('connecting');
+  const [state, setState] = useState<RemoteState | null>(null);
+  const connection = useRef<RemoteConnection | null>(null);
+
+  useEffect(() => {
+    connection.current = createRemoteConnection({
+      url,
+      onStatus: setStatus,
+      // Ask for the display's state on every (re)connect
+      onOpen: () => connection.current?.send({ kind: 'hello' }),
+      onMessage: (message) => {
+        if (message.kind === 'state') setState(message.state);
+      },
+    });
+    return () => {
+      connection.current?.close();
+      connection.current = null;
+    };
+  }, [url]);
+
+  const send = useCallback((command: RemoteCommand) => {
+    connection.current?.send({ kind: 'command', command });
+  }, []);
+
+  return { status, state, send };
+};
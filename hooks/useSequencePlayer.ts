@@ -0,0 +1,110 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Sequence, SequenceStep } from '../types';
+import { sequenceDuration, stepIndexAt } from '../utils/sequence';
+
+// How often the playhead position is pushed into React state for the UI
+const UI_UPDATE_INTERVAL = 100; // ms
+
+/**
+ * Drives a sequence along a wall-clock timeline. `onStep` fires whenever the
+ * playhead enters a different step; the timeline stands still while
+ * `isPaused` is set, so pausing the scene pauses the show.
+ */
+export const useSequencePlayer = (
+  sequence: Sequence,
+  isPaused: boolean,
+  onStep: (step: SequenceStep) => void
+) => {
+  const [isActive, setIsActive] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [stepIndex, setStepIndex] = useState(-1);
+
+  const positionRef = useRef(0);
+  const stepIndexRef = useRef(-1);
+  const onStepRef = useRef(onStep);
+  onStepRef.current = onStep;
+
+  const duration = sequenceDuration(sequence);
+
+  const enterStepAt = useCallback((time: number, force: boolean) => {
+    const index = stepIndexAt(sequence, time);
+    if (index === -1 || (index === stepIndexRef.current && !force)) return;
+    stepIndexRef.current = index;
+    setStepIndex(index);
+    onStepRef.current(sequence.steps[index]);
+  }, [sequence]);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.min(Math.max(time, 0), duration);
+    positionRef.current = clamped;
+    setPosition(clamped);
+    enterStepAt(clamped, true);
+  }, [duration, enterStepAt]);
+
+  const play = useCallback(() => {
+    if (sequence.steps.length === 0) return;
+    // Restart from the top once a non-looping show has run out
+    seek(positionRef.current >= duration ? 0 : positionRef.current);
+    setIsActive(true);
+  }, [sequence, duration, seek]);
+
+  const stop = useCallback(() => {
+    setIsActive(false);
+    positionRef.current = 0;
+    stepIndexRef.current = -1;
+    setPosition(0);
+    setStepIndex(-1);
+  }, []);
+
+  /**
+   * Moves the playhead forward by `seconds`, firing `onStep` on entering a new
+   * step. Returns false once a non-looping show has run out. Exports call this
+   * directly to step the timeline with their own fixed clock.
+   */
+  const advance = useCallback((seconds: number): boolean => {
+    let next = positionRef.current + seconds;
+
+    if (next >= duration) {
+      if (sequence.loop && duration > 0) {
+        next %= duration;
+        stepIndexRef.current = -1; // Re-enter the first step even if it's the only one
+      } else {
+        positionRef.current = duration;
+        setPosition(duration);
+        setIsActive(false);
+        return false;
+      }
+    }
+
+    positionRef.current = next;
+    enterStepAt(next, false);
+    return true;
+  }, [sequence, duration, enterStepAt]);
+
+  useEffect(() => {
+    if (!isActive || isPaused) return;
+
+    let frame = 0;
+    let last = performance.now();
+    let lastUiUpdate = 0;
+
+    const tick = (now: number) => {
+      const running = advance((now - last) / 1000);
+      last = now;
+      if (!running) return;
+
+      if (now - lastUiUpdate > UI_UPDATE_INTERVAL) {
+        lastUiUpdate = now;
+        setPosition(positionRef.current);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isActive, isPaused, advance]);
+
+  return { isActive, position, duration, stepIndex, play, stop, seek, advance };
+};
+
+export type SequencePlayer = ReturnType<typeof useSequencePlayer>;
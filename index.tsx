@@ -1,15 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import RemoteController from './components/RemoteController';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// `?controller` turns this page into a remote for a display elsewhere
+const isController = new URLSearchParams(window.location.search).has('controller');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isController ? <RemoteController /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,9 @@
+/**
+ * Standalone entry for plain pages: registers <particle-morph> on import.
+ */
+import { defineParticleMorphElement } from '../components/ParticleMorphElement';
+
+defineParticleMorphElement();
+
+export { ParticleMorphElement } from '../components/ParticleMorphElement';
+export type { MorphEventDetail } from '../components/ParticleMorphElement';
@@ -0,0 +1,42 @@
+/**
+ * Library entry: the scene for existing R3F canvases, the ready-made canvas
+ * wrapper and the <particle-morph> custom element (not registered here; call
+ * defineParticleMorphElement or import the element entry).
+ */
+export { default as ParticleScene } from '../components/ParticleScene';
+export type { ParticleSceneProps } from '../components/ParticleScene';
+export { default as ParticleMorph } from '../components/ParticleMorph';
+export type { ParticleMorphProps } from '../components/ParticleMorph';
+export { ParticleMorphElement, defineParticleMorphElement } from '../components/ParticleMorphElement';
+export type { MorphEventDetail } from '../components/ParticleMorphElement';
+
+export { AssignmentStrategy, MorphState } from '../types';
+export type {
+  AudioSettings,
+  ColorMode,
+  EasingName,
+  EffectSettings,
+  Extrusion,
+  FrameClock,
+  ImageSampleOptions,
+  Look,
+  MeshSettings,
+  ParticleGeometry,
+  PointCloud,
+  ShapeKind,
+  StaggerPattern,
+  StaggerSettings,
+  TextLayout,
+  TrailSettings,
+  TransitionTiming,
+} from '../types';
+export { DEFAULT_TEXT_LAYOUT, loadImageFile, loadSvgImage, loadLayoutFont } from '../utils/particleUtils';
+export { openMicrophone, openAudioFile, DEFAULT_AUDIO } from '../utils/audio';
+export type { AudioAnalysis } from '../utils/audio';
+export { DEFAULT_TRAILS } from '../utils/trails';
+export { loadPointCloudFile, parsePointCloud, samplePointCloud, serializePly, serializePointJson, POINT_CLOUD_EXTENSIONS } from '../utils/pointCloud';
+export { DEFAULT_MESH, createParticleGeometry } from '../utils/meshParticles';
+export { DEFAULT_TRANSITION, EASINGS, EASING_NAMES } from '../utils/easing';
+export { DEFAULT_STAGGER, STAGGER_PATTERNS } from '../utils/stagger';
+export { DEFAULT_EFFECTS, BUILT_IN_LOOKS } from '../utils/effects';
+export { AfterimageEffect } from '../utils/afterimageEffect';
@@ -0,0 +1,70 @@
+// Relay for remote control: every message a client sends is forwarded to all
+// other clients, so any number of displays and controllers can share it.
+//
+//   npm run relay              (PORT=9000 npm run relay for another port)
+//
+// Then open the display with ?remote=ws://<this machine>:8787 and the
+// controller with ?controller&remote=ws://<this machine>:8787.
+//
+// Anyone who can reach the port can drive the display; RELAY_TOKEN=<secret>
+// makes the relay turn away clients whose URL lacks ?token=<secret>.
+import { timingSafeEqual } from 'node:crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const HEARTBEAT_INTERVAL = 30000; // ms
+const MAX_MESSAGE = 64 * 1024;    // Commands and state are a few hundred bytes
+const TOKEN = process.env.RELAY_TOKEN || null;
+const POLICY_VIOLATION = 1008;    // Close code clients treat as final
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE });
+const alive = new WeakMap();
+
+const hasToken = (request) => {
+  if (!TOKEN) return true;
+  const given = Buffer.from(new URL(request.url ?? '/', 'ws://relay').searchParams.get('token') ?? '');
+  const expected = Buffer.from(TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+server.on('connection', (socket, request) => {
+  // A socket error (e.g. a malformed frame) ends that client, not the relay
+  socket.on('error', () => socket.terminate());
+
+  if (!hasToken(request)) {
+    console.log(`! ${request.socket.remoteAddress} rejected: wrong or missing token`);
+    socket.close(POLICY_VIOLATION, 'Invalid token');
+    return;
+  }
+
+  alive.set(socket, true);
+  console.log(`+ ${request.socket.remoteAddress} (${server.clients.size} connected)`);
+
+  socket.on('pong', () => alive.set(socket, true));
+  socket.on('message', (data, isBinary) => {
+    for (const client of server.clients) {
+      if (client !== socket && client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    }
+  });
+  socket.on('close', () => console.log(`- ${request.socket.remoteAddress} (${server.clients.size} connected)`));
+});
+
+// Drop clients that stopped answering (e.g. a phone that went to sleep) so
+// they reconnect cleanly
+const heartbeat = setInterval(() => {
+  for (const client of server.clients) {
+    if (!alive.get(client)) {
+      client.terminate();
+      continue;
+    }
+    alive.set(client, false);
+    client.ping();
+  }
+}, HEARTBEAT_INTERVAL);
+
+server.on('close', () => clearInterval(heartbeat));
+server.on('error', (err) => {
+  console.error(`Remote relay failed: ${err.message}`);
+  process.exit(1);
+});
+server.on('listening', () => console.log(`Remote relay listening on ws://0.0.0.0:${PORT}${TOKEN ? ' (token required)' : ''}`));
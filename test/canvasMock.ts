@@ -0,0 +1,176 @@
+/**
+ * A small software 2D context for jsdom, which has no canvas of its own.
+ * It keeps a real RGBA pixel buffer so the samplers scan actual pixels, but
+ * draws glyphs as solid boxes: every non-space character is a block
+ * `GLYPH_WIDTH` of the font size wide and `GLYPH_HEIGHT` tall, advancing by
+ * `ADVANCE`, sitting on the baseline. Emoji are drawn in `EMOJI_COLOR`
+ * whatever the fill style, like color glyphs. That's enough for shapes with an
+ * outline and an interior that are laid out, aligned and wrapped like text,
+ * and is identical everywhere.
+ */
+
+export const ADVANCE = 0.6;      // Per character, fraction of the font size
+export const GLYPH_WIDTH = 0.45;
+export const GLYPH_HEIGHT = 0.7;
+export const EMOJI_COLOR: [number, number, number, number] = [255, 200, 0, 255];
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+/** Pixels for `drawImage` in tests (in place of a decoded image). */
+export interface TestImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+}
+
+export const createTestImage = (width: number, height: number, fill: (x: number, y: number) => [number, number, number, number]): TestImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(fill(x, y), (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const parseColor = (style: unknown): [number, number, number, number] => {
+  if (typeof style === 'string') {
+    const hex = /^#([0-9a-f]{6})$/i.exec(style);
+    if (hex) {
+      const value = parseInt(hex[1], 16);
+      return [value >> 16, (value >> 8) & 255, value & 255, 255];
+    }
+    const rgba = /^rgba?\(([^)]+)\)$/.exec(style);
+    if (rgba) {
+      const [r, g, b, a = 1] = rgba[1].split(',').map(Number);
+      return [r, g, b, Math.round(a * 255)];
+    }
+  }
+  return [255, 255, 255, 255]; // Gradients and patterns: plain white
+};
+
+const fontSize = (font: string) => Number(/(\d+(?:\.\d+)?)px/.exec(font)?.[1] ?? 10);
+
+export class MockContext2D {
+  font = '10px sans-serif';
+  letterSpacing = '0px';
+  fillStyle: unknown = '#000000';
+  textAlign: CanvasTextAlign = 'start';
+  textBaseline: CanvasTextBaseline = 'alphabetic';
+  direction: CanvasDirection = 'ltr';
+  private pixels = new Uint8ClampedArray(0);
+  private width = 0;
+  private height = 0;
+
+  constructor(readonly canvas: HTMLCanvasElement) {}
+
+  // Resizing a canvas clears it, as in browsers
+  private buffer() {
+    if (this.canvas.width !== this.width || this.canvas.height !== this.height) {
+      this.width = this.canvas.width;
+      this.height = this.canvas.height;
+      this.pixels = new Uint8ClampedArray(this.width * this.height * 4);
+    }
+    return this.pixels;
+  }
+
+  private fill(x: number, y: number, w: number, h: number, rgba: [number, number, number, number]) {
+    const pixels = this.buffer();
+    const x0 = Math.max(Math.round(x), 0);
+    const y0 = Math.max(Math.round(y), 0);
+    const x1 = Math.min(Math.round(x + w), this.width);
+    const y1 = Math.min(Math.round(y + h), this.height);
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) pixels.set(rgba, (py * this.width + px) * 4);
+    }
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    this.fill(x, y, w, h, parseColor(this.fillStyle));
+  }
+
+  clearRect(x: number, y: number, w: number, h: number) {
+    this.fill(x, y, w, h, [0, 0, 0, 0]);
+  }
+
+  private advance() {
+    return fontSize(this.font) * ADVANCE + (parseFloat(this.letterSpacing) || 0);
+  }
+
+  // Where the text starts, relative to the x it's drawn at
+  private startOffset(width: number) {
+    const end = this.direction === 'rtl' ? 'start' : 'end';
+    if (this.textAlign === 'center') return -width / 2;
+    return this.textAlign === 'right' || this.textAlign === end ? -width : 0;
+  }
+
+  measureText(text: string) {
+    const size = fontSize(this.font);
+    const chars = [...text];
+    const width = chars.length * this.advance();
+    const start = this.startOffset(width);
+    const ink = chars.length > 0 ? (chars.length - 1) * this.advance() + size * GLYPH_WIDTH : 0;
+    const ascent = this.textBaseline === 'middle' ? (size * GLYPH_HEIGHT) / 2 : size * GLYPH_HEIGHT;
+    return {
+      width,
+      actualBoundingBoxLeft: -start,
+      actualBoundingBoxRight: start + ink,
+      actualBoundingBoxAscent: ink > 0 ? ascent : 0,
+      actualBoundingBoxDescent: ink > 0 ? size * GLYPH_HEIGHT - ascent : 0,
+    } as TextMetrics;
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const size = fontSize(this.font);
+    const chars = [...text];
+    const left = x + this.startOffset(chars.length * this.advance());
+    const top = this.textBaseline === 'middle' ? y - (size * GLYPH_HEIGHT) / 2 : y - size * GLYPH_HEIGHT;
+    const rgba = parseColor(this.fillStyle);
+    // Right-to-left text runs from the right end (visible in mixed glyph colors)
+    const ordered = this.direction === 'rtl' ? chars.reverse() : chars;
+    ordered.forEach((char, i) => {
+      if (char.trim()) this.fill(left + i * this.advance(), top, size * GLYPH_WIDTH, size * GLYPH_HEIGHT, EMOJI.test(char) ? EMOJI_COLOR : rgba);
+    });
+  }
+
+  drawImage(image: TestImage, dx: number, dy: number, dw = image.width, dh = image.height) {
+    const pixels = this.buffer();
+    for (let y = 0; y < dh; y++) {
+      for (let x = 0; x < dw; x++) {
+        const tx = Math.round(dx + x);
+        const ty = Math.round(dy + y);
+        if (tx < 0 || ty < 0 || tx >= this.width || ty >= this.height) continue;
+        const sx = Math.min(Math.floor((x / dw) * image.width), image.width - 1);
+        const sy = Math.min(Math.floor((y / dh) * image.height), image.height - 1);
+        const source = (sy * image.width + sx) * 4;
+        pixels.set(image.data.subarray(source, source + 4), (ty * this.width + tx) * 4);
+      }
+    }
+  }
+
+  getImageData(sx: number, sy: number, sw: number, sh: number) {
+    const pixels = this.buffer();
+    const data = new Uint8ClampedArray(sw * sh * 4);
+    for (let y = 0; y < sh; y++) {
+      const start = ((sy + y) * this.width + sx) * 4;
+      data.set(pixels.subarray(start, start + sw * 4), y * sw * 4);
+    }
+    return { data, width: sw, height: sh, colorSpace: 'srgb' } as ImageData;
+  }
+
+  createRadialGradient() {
+    return { addColorStop: () => {} };
+  }
+}
+
+const contexts = new WeakMap<HTMLCanvasElement, MockContext2D>();
+
+/**
+ * Makes `getContext('2d')` return a MockContext2D (one per canvas, like the
+ * real thing). Other context types stay unavailable.
+ */
+export const installCanvasMock = () => {
+  HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement, type: string) {
+    if (type !== '2d') return null;
+    if (!contexts.has(this)) contexts.set(this, new MockContext2D(this));
+    return contexts.get(this);
+  } as unknown as typeof HTMLCanvasElement.prototype.getContext;
+};
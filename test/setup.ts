@@ -0,0 +1,6 @@
+import { installCanvasMock } from './canvasMock';
+
+// Lets @react-three/test-renderer flush updates inside act()
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+installCanvasMock();
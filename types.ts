@@ -8,11 +8,369 @@ export interface ParticleState {
 
 export enum MorphState {
   SPHERE = 'SPHERE',
+  TORUS = 'TORUS',
+  CUBE = 'CUBE',
+  HELIX = 'HELIX',
+  GALAXY = 'GALAXY',
+  DNA = 'DNA',
+  HEART = 'HEART',
+  WAVE = 'WAVE',
   TEXT = 'TEXT',
+  IMAGE = 'IMAGE',
+  POINTS = 'POINTS',
+}
+
+/**
+ * Every morph state that comes from a procedural generator rather than a sampler.
+ */
+export type ShapeKind = Exclude<MorphState, MorphState.TEXT | MorphState.IMAGE | MorphState.POINTS>;
+
+/**
+ * Uniform random number in [0, 1). Math.random, or a seeded stream from
+ * utils/random for reproducible layouts.
+ */
+export type Random = () => number;
+
+export interface ShapeParams {
+  size: number;    // Overall radius / half-extent in world units
+  random?: Random; // Defaults to Math.random
+}
+
+export type ShapeGenerator = (count: number, params: ShapeParams) => Float32Array;
+
+/**
+ * Output of a raster sampler: one xyz per particle, plus an rgba per particle
+ * when the source carries its own colors (linear rgb, 0-1, and alpha for how
+ * much that color replaces the theme's), a 0/1 per particle marking the
+ * ones placed on an outline, and for text, where each particle falls in
+ * reading order, counted in characters (2.5 = halfway through the third).
+ */
+export interface SampledTarget {
+  positions: Float32Array;
+  colors: Float32Array | null;
+  edges: Float32Array | null;
+  order: Float32Array | null;
+}
+
+/**
+ * Points read from a PLY, OBJ, JSON or CSV file, or snapshotted from the
+ * scene: xyz triples in the file's own units, and 0-1 sRGB colors when every
+ * point has one.
+ */
+export interface PointCloud {
+  positions: Float32Array;
+  colors: Float32Array | null;
+}
+
+/**
+ * How the theme colors spread over the particles: one flat color, a gradient
+ * across the shape's bounds (left → right, or center → outside), outline vs
+ * interior, bottom → top, or a hue cycle over time.
+ */
+export type ColorMode = 'solid' | 'linear' | 'radial' | 'edge' | 'height' | 'rainbow';
+
+export interface ImageSampleOptions {
+  threshold: 'luminance' | 'alpha'; // Which channel decides a pixel is "filled"
+  invert: boolean;                   // Luminance only: fill dark pixels (dark logo on light background)
+}
+
+/**
+ * How text is laid out before it is rasterised for sampling.
+ */
+export interface TextLayout {
+  fontFamily: string;    // CSS font-family list; any loaded web font works
+  fontWeight: number;    // 100-900
+  italic: boolean;
+  letterSpacing: number; // em
+  lineHeight: number;    // Multiple of the font size
+  align: 'left' | 'center' | 'right';
+  maxWidth: number;      // Automatic wrap width in em, 0 = only explicit line breaks
+}
+
+/**
+ * Turns a flat sampled target into a solid: interior points fill the depth,
+ * edges trace front and back outlines plus the side walls.
+ */
+export interface Extrusion {
+  enabled: boolean;
+  depth: number; // World units, front face to back face
+  bevel: number; // World units chamfered off the silhouette, 0 = square edges
+}
+
+/**
+ * World-space box (at z = 0) that sampled text and images are scaled to fit.
+ */
+export interface WorldBounds {
+  maxWidth: number;
+  maxHeight: number;
 }
 
 export interface ParticleConfig {
   count: number;
   color: string;
   size: number;
-}
\ No newline at end of file
+}
+
+/**
+ * How particles are paired with the points of a new target shape.
+ */
+export enum AssignmentStrategy {
+  RANDOM = 'RANDOM',       // Sampler order (edges first, shuffled)
+  NEAREST = 'NEAREST',     // Greedy nearest-neighbour over a spatial grid
+  TRANSPORT = 'TRANSPORT', // Approximate optimal transport (sliced), then nearest
+}
+
+
+export type EasingName =
+  | 'linear'
+  | 'smoothStep'
+  | 'easeInOutCubic'
+  | 'easeOutCubic'
+  | 'easeInCubic'
+  | 'easeInBack'
+  | 'easeOutBack'
+  | 'easeInOutBack'
+  | 'easeInElastic'
+  | 'easeOutElastic'
+  | 'easeInOutElastic'
+  | 'easeInBounce'
+  | 'easeOutBounce'
+  | 'easeInOutBounce';
+
+/**
+ * Duration-based timing for a morph: progress runs linearly over `duration`
+ * and is shaped by the easing curve.
+ */
+export interface TransitionTiming {
+  duration: number; // Seconds
+  easing: EasingName;
+}
+
+/**
+ * Which particles set off first when a morph is staggered: left to right
+ * across the target, out from its center, in random order, outline before
+ * interior, character by character in reading order (typewriter), or along
+ * the reading order with each letter's outline drawn ahead of its fill
+ * (handwriting). Shapes and images have no reading order and sweep instead.
+ */
+export type StaggerPattern = 'none' | 'sweep' | 'radial' | 'random' | 'edges' | 'typewriter' | 'handwriting';
+
+export interface StaggerSettings {
+  pattern: StaggerPattern;
+  amount: number; // Share of the transition the start times spread over, 0-0.9
+}
+
+/**
+ * One scripted beat of a sequence: morph into `target`, take `transition`
+ * seconds doing so, then hold for `hold` seconds.
+ */
+export interface SequenceStep {
+  id: string;
+  target: MorphState; // TEXT or a shape
+  text: string;
+  color: string;
+  hold: number;       // Seconds
+  transition: number; // Seconds
+  easing: EasingName;
+}
+
+export interface Sequence {
+  version: 1;
+  name: string;
+  loop: boolean;
+  steps: SequenceStep[];
+}
+/**
+ * Time source for one rendered frame. The scene normally runs off R3F's wall
+ * clock; exports substitute a fixed step so every frame is reproducible.
+ */
+export interface FrameClock {
+  elapsed: number; // Seconds since the clock started
+  delta: number;   // Seconds since the previous frame
+}
+
+export type ExportFormat = 'webm' | 'gif' | 'png';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  width: number;    // Output pixels
+  height: number;
+  fps: number;
+  duration: number; // Seconds
+}
+
+/**
+ * Everything needed to rebuild a scene, as stored in share links and presets.
+ * Uploaded images, point clouds and font files are not included; image and
+ * point cloud modes come back waiting for a file and unknown font families
+ * fall back like CSS does.
+ */
+export interface SceneConfig {
+  version: 1;
+  text: string;
+  isMorphing: boolean;
+  color: string;
+  secondaryColor: string;
+  colorMode: ColorMode;
+  autoCycle: boolean;
+  particleCount: number;
+  seed: number;
+  assignment: AssignmentStrategy;
+  restShape: ShapeKind;
+  morphTarget: MorphState;
+  textLayout: TextLayout;
+  extrusion: Extrusion;
+  imageOptions: ImageSampleOptions;
+  physics: PhysicsSettings;
+  audio: AudioSettings;
+  trails: TrailSettings;
+  effects: EffectSettings;
+  mesh: MeshSettings;
+  transition: TransitionTiming;
+  stagger: StaggerSettings;
+}
+
+export interface ScenePreset {
+  name: string;
+  config: SceneConfig;
+}
+
+/**
+ * Optional spring simulation: each particle has a velocity and is pulled
+ * toward its (interpolated) position, and the pointer pushes or pulls.
+ */
+export interface PhysicsSettings {
+  enabled: boolean;
+  stiffness: number;   // Spring constant, 1/s²
+  damping: number;     // Velocity damping, 1/s
+  forceRadius: number; // World units around the pointer ray
+  pointer: 'repel' | 'attract' | 'off';
+}
+
+/**
+ * How strongly live audio drives the scene. Band levels are 0-1 after
+ * `sensitivity`; the other amounts scale what each band does.
+ */
+export interface AudioSettings {
+  sensitivity: number;  // Gain on the analysed levels
+  displacement: number; // Treble → particles pushed outward, world units
+  pulse: number;        // Bass → resting shape radius, fraction of its size
+  bloom: number;        // Overall level → extra bloom intensity
+  color: number;        // Mids → colors washed toward white, 0-1
+  beatAdvance: boolean; // Beats step to the next word of the text
+}
+
+/** One analysis frame: band levels 0-1 and whether a beat started. */
+export interface AudioLevels {
+  level: number;
+  bass: number;
+  mid: number;
+  treble: number;
+  beat: boolean;
+}
+
+/** Rendering cost over the last sampling window. */
+export interface FrameStats {
+  fps: number;
+  frameTime: number; // Average ms between frames
+  drawCalls: number; // Per frame, including post-processing passes
+  dpr: number;
+}
+
+/** One rung of the adaptive quality ladder. */
+export interface QualityLevel {
+  particleScale: number; // Fraction of the chosen particle count
+  maxDpr: number;
+  bloomHeight: number;   // Bloom render target height, px
+}
+
+/**
+ * One layout of the particle cloud: xyz per particle, rgba per particle
+ * where alpha is how much the own color overrides the theme color, and the
+ * sampler's outline flag per particle.
+ */
+export interface MorphFrame {
+  positions: Float32Array;
+  colors: Float32Array;
+  edges: Float32Array;
+  order?: Float32Array; // Reading order, for text targets
+}
+
+/** A layout being blended from `from` to `to`. */
+export interface MorphPair {
+  from: MorphFrame;
+  to: MorphFrame;
+}
+
+/**
+ * Motion trails: line segments through each particle's recent positions, or
+ * an afterimage pass that fades the previous frames out.
+ */
+export interface TrailSettings {
+  mode: 'off' | 'lines' | 'afterimage';
+  length: number;      // Line trails: steps of history (1/30 s each)
+  persistence: number; // Afterimage: share of the last frame kept, 0-1
+}
+
+/** Low-poly shapes a mesh particle can take. */
+export type ParticleGeometry = 'sphere' | 'cube' | 'tetrahedron' | 'octahedron' | 'icosahedron';
+
+/**
+ * How particles are drawn: glowing screen-space points, or small lit 3D
+ * meshes (one instanced draw) that take real lights and cast shadows.
+ */
+export interface MeshSettings {
+  renderer: 'points' | 'mesh';
+  geometry: ParticleGeometry;
+  size: number;     // Mesh: world-space size of an average particle
+  spin: number;     // Mesh: half-turns each particle rotates over a morph
+  shadows: boolean; // Mesh: particles cast and receive shadows
+}
+
+/**
+ * The post-processing stack. Each effect has its own switch; switched-off
+ * effects are left out of the composer entirely.
+ */
+export interface EffectSettings {
+  bloom: { enabled: boolean; threshold: number; smoothing: number; intensity: number };
+  chromaticAberration: { enabled: boolean; offset: number }; // Channel shift, fraction of the screen
+  vignette: { enabled: boolean; offset: number; darkness: number };
+  noise: { enabled: boolean; opacity: number };
+  depthOfField: { enabled: boolean; range: number; bokeh: number }; // Sharp within `range` of the text plane
+  glitch: { enabled: boolean; strength: number; duration: number }; // Pulse when a morph settles, seconds
+}
+
+/** A named effect stack. */
+export interface Look {
+  name: string;
+  effects: EffectSettings;
+}
+
+/**
+ * Remote control: what a controller can ask the display to do. Mirrors the
+ * app's own controls (morph, reset, pause, color, particle count, sequence).
+ */
+export type RemoteCommand =
+  | { type: 'morph'; text?: string } // With text: morph into it; without: into the current target
+  | { type: 'reset' }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'color'; color: string; secondaryColor?: string }
+  | { type: 'particleCount'; count: number }
+  | { type: 'sequence'; action: 'play' | 'stop' };
+
+/** What the display reports back after every change. */
+export interface RemoteState {
+  text: string;
+  isMorphing: boolean;
+  isPaused: boolean;
+  color: string;
+  particleCount: number;
+  sequence: { name: string; playing: boolean };
+}
+
+export type RemoteMessage =
+  | { kind: 'command'; command: RemoteCommand }
+  | { kind: 'state'; state: RemoteState }
+  | { kind: 'hello' }; // A controller (re)connected: displays answer with their state
+
+export type RemoteStatus = 'connecting' | 'open' | 'closed';
@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import { Effect, ShaderPass } from 'postprocessing';
+
+const accumulateVertexShader = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = position.xy * 0.5 + 0.5;
+    gl_Position = vec4(position.xy, 1.0, 1.0);
+  }
+`;
+
+// Brightest of the new frame and the faded history, so trails never wash
+// out the particles drawn on top of them
+const accumulateFragmentShader = /* glsl */ `
+  uniform sampler2D inputBuffer;
+  uniform sampler2D tPrevious;
+  uniform float uPersistence;
+
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = max(texture2D(inputBuffer, vUv), texture2D(tPrevious, vUv) * uPersistence);
+  }
+`;
+
+const outputFragmentShader = /* glsl */ `
+  uniform sampler2D tAfterimage;
+
+  void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+    outputColor = texture2D(tAfterimage, uv);
+  }
+`;
+
+const createTarget = () => new THREE.WebGLRenderTarget(1, 1, { depthBuffer: false });
+
+/**
+ * Afterimage: each frame is combined with the previous result faded by
+ * `persistence`, in a pair of render targets that swap every frame. Put it
+ * before bloom in an EffectComposer so the smears glow too.
+ */
+export class AfterimageEffect extends Effect {
+  private material: THREE.ShaderMaterial;
+  private accumulate: ShaderPass;
+  private previous: THREE.WebGLRenderTarget;
+  private next: THREE.WebGLRenderTarget;
+
+  constructor(persistence = 0.85) {
+    super('AfterimageEffect', outputFragmentShader, {
+      uniforms: new Map([['tAfterimage', new THREE.Uniform<THREE.Texture | null>(null)]]),
+    });
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: {
+        inputBuffer: { value: null },
+        tPrevious: { value: null },
+        uPersistence: { value: persistence },
+      },
+      vertexShader: accumulateVertexShader,
+      fragmentShader: accumulateFragmentShader,
+      depthTest: false,
+      depthWrite: false,
+    });
+    this.accumulate = new ShaderPass(this.material, 'inputBuffer');
+    this.previous = createTarget();
+    this.next = createTarget();
+  }
+
+  /** Share of the previous frames kept each frame, 0-1. */
+  get persistence(): number {
+    return this.material.uniforms.uPersistence.value;
+  }
+
+  set persistence(value: number) {
+    this.material.uniforms.uPersistence.value = value;
+  }
+
+  update(renderer: THREE.WebGLRenderer, inputBuffer: THREE.WebGLRenderTarget) {
+    this.material.uniforms.tPrevious.value = this.previous.texture;
+    this.accumulate.render(renderer, inputBuffer, this.next);
+    [this.previous, this.next] = [this.next, this.previous];
+    this.uniforms.get('tAfterimage')!.value = this.previous.texture;
+  }
+
+  setSize(width: number, height: number) {
+    this.previous.setSize(width, height);
+    this.next.setSize(width, height);
+  }
+
+  initialize(renderer: THREE.WebGLRenderer, alpha: boolean, frameBufferType: number) {
+    // Match the composer's buffers so HDR values (bloom input) survive
+    if (frameBufferType !== undefined) {
+      this.previous.texture.type = frameBufferType as THREE.TextureDataType;
+      this.next.texture.type = frameBufferType as THREE.TextureDataType;
+    }
+  }
+}
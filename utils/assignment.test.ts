@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { assignTargets } from './assignment';
+import { generateShapePositions } from './shapes';
+import { createRandom } from './random';
+import { AssignmentStrategy, MorphState } from '../types';
+
+// A wide, thin band on z = 0, like a line of sampled text
+const band = (count: number, random: () => number) => {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = (random() - 0.5) * 16;
+    positions[i * 3 + 1] = (random() - 0.5) * 1.5;
+  }
+  return positions;
+};
+
+const sphere = (count: number, random: () => number) => generateShapePositions(MorphState.SPHERE, count, { size: 3.5, random });
+
+const isPermutation = (order: Uint32Array) => {
+  const seen = new Uint8Array(order.length);
+  order.forEach((index) => { seen[index] = 1; });
+  return seen.every((flag) => flag === 1);
+};
+
+// Reference: the same greedy matching by brute force
+const bruteForce = (from: Float32Array, targets: Float32Array, visit: number[]) => {
+  const taken = new Set<number>();
+  const result = new Uint32Array(visit.length);
+  for (const i of visit) {
+    let best = -1;
+    let bestDist = Infinity;
+    for (let t = 0; t < targets.length / 3; t++) {
+      if (taken.has(t)) continue;
+      const d = (targets[t * 3] - from[i * 3]) ** 2 + (targets[t * 3 + 1] - from[i * 3 + 1]) ** 2 + (targets[t * 3 + 2] - from[i * 3 + 2]) ** 2;
+      if (d < bestDist) {
+        bestDist = d;
+        best = t;
+      }
+    }
+    taken.add(best);
+    result[i] = best;
+  }
+  return result;
+};
+
+describe('assignTargets', () => {
+  it('gives each particle the nearest target left, in its visiting order', () => {
+    const count = 300;
+    const from = sphere(count, createRandom(1));
+    const targets = band(count, createRandom(2));
+
+    // The visiting order is the shuffle matchNearest draws first from the same stream
+    const random = createRandom(3);
+    const visit = Array.from({ length: count }, (_, i) => i);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [visit[i], visit[j]] = [visit[j], visit[i]];
+    }
+
+    const order = assignTargets(from, targets, AssignmentStrategy.NEAREST, createRandom(3));
+    expect(order).toEqual(bruteForce(from, targets, visit));
+  });
+
+  it.each([AssignmentStrategy.NEAREST, AssignmentStrategy.TRANSPORT, AssignmentStrategy.RANDOM])('%s uses every target once', (strategy) => {
+    const from = sphere(500, createRandom(4));
+    expect(isPermutation(assignTargets(from, band(500, createRandom(5)), strategy, createRandom(6)))).toBe(true);
+  });
+
+  it('copes with every target in the same place', () => {
+    const from = sphere(1000, createRandom(7));
+    expect(isPermutation(assignTargets(from, new Float32Array(3000), AssignmentStrategy.NEAREST, createRandom(8)))).toBe(true);
+  });
+
+  it('matches 20k particles from a sphere onto a band in well under a second', () => {
+    const count = 20000;
+    const from = sphere(count, createRandom(9));
+    const targets = band(count, createRandom(10));
+    const started = performance.now();
+    assignTargets(from, targets, AssignmentStrategy.NEAREST, createRandom(11));
+    // Was several seconds with the old grid search; generous for slow CI machines
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
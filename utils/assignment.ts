@@ -0,0 +1,282 @@
+import { AssignmentStrategy, MorphFrame, Random, SampledTarget } from '../types';
+
+// Most target points a k-d tree leaf holds
+const LEAF_SIZE = 8;
+
+/**
+ * Static k-d tree over target points that supports claiming them: every node
+ * counts its unclaimed points, so searches skip regions already used up
+ * instead of scanning them again and again as they empty.
+ */
+interface TargetTree {
+  points: Uint32Array;  // Target indices, grouped by node
+  start: Int32Array;    // Node's range in `points`
+  end: Int32Array;
+  left: Int32Array;     // Children, -1 for leaves
+  right: Int32Array;
+  parent: Int32Array;
+  box: Float32Array;    // Min xyz, max xyz per node
+  remaining: Int32Array; // Unclaimed points under each node
+  leafOf: Int32Array;   // Leaf holding each position in `points`
+  claimed: Uint8Array;  // Per position in `points`
+}
+
+// Quickselect: puts the k-th smallest coordinate on `axis` at position k,
+// smaller ones before it and larger ones after
+const selectNth = (points: Uint32Array, coords: Float32Array, lo: number, hi: number, k: number, axis: number) => {
+  while (hi > lo) {
+    const pivot = coords[points[(lo + hi) >> 1] * 3 + axis];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (coords[points[i] * 3 + axis] < pivot) i++;
+      while (coords[points[j] * 3 + axis] > pivot) j--;
+      if (i <= j) {
+        const swap = points[i];
+        points[i] = points[j];
+        points[j] = swap;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else return;
+  }
+};
+
+const buildTree = (targets: Float32Array, count: number): TargetTree => {
+  // Median splits leave at least LEAF_SIZE / 2 points per leaf
+  const capacity = 2 * Math.ceil(count / (LEAF_SIZE / 2)) + 1;
+  const tree: TargetTree = {
+    points: Uint32Array.from({ length: count }, (_, i) => i),
+    start: new Int32Array(capacity),
+    end: new Int32Array(capacity),
+    left: new Int32Array(capacity),
+    right: new Int32Array(capacity),
+    parent: new Int32Array(capacity),
+    box: new Float32Array(capacity * 6),
+    remaining: new Int32Array(capacity),
+    leafOf: new Int32Array(count),
+    claimed: new Uint8Array(count),
+  };
+  let nodes = 0;
+
+  const build = (from: number, to: number, parent: number): number => {
+    const node = nodes++;
+    tree.start[node] = from;
+    tree.end[node] = to;
+    tree.parent[node] = parent;
+    tree.remaining[node] = to - from;
+
+    const box = tree.box;
+    box.fill(Infinity, node * 6, node * 6 + 3);
+    box.fill(-Infinity, node * 6 + 3, node * 6 + 6);
+    for (let n = from; n < to; n++) {
+      const t = tree.points[n] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        box[node * 6 + axis] = Math.min(box[node * 6 + axis], targets[t + axis]);
+        box[node * 6 + 3 + axis] = Math.max(box[node * 6 + 3 + axis], targets[t + axis]);
+      }
+    }
+
+    if (to - from <= LEAF_SIZE) {
+      tree.left[node] = -1;
+      tree.right[node] = -1;
+      for (let n = from; n < to; n++) tree.leafOf[n] = node;
+      return node;
+    }
+
+    // Split the widest side at its median
+    let axis = 0;
+    for (let a = 1; a < 3; a++) {
+      if (box[node * 6 + 3 + a] - box[node * 6 + a] > box[node * 6 + 3 + axis] - box[node * 6 + axis]) axis = a;
+    }
+    const mid = (from + to) >> 1;
+    selectNth(tree.points, targets, from, to - 1, mid, axis);
+    tree.left[node] = build(from, mid, node);
+    tree.right[node] = build(mid, to, node);
+    return node;
+  };
+
+  build(0, count, -1);
+  return tree;
+};
+
+// Squared distance from a point to a node's box (0 inside it)
+const boxDistance = (tree: TargetTree, node: number, x: number, y: number, z: number) => {
+  const b = node * 6;
+  const dx = Math.max(tree.box[b] - x, 0, x - tree.box[b + 3]);
+  const dy = Math.max(tree.box[b + 1] - y, 0, y - tree.box[b + 4]);
+  const dz = Math.max(tree.box[b + 2] - z, 0, z - tree.box[b + 5]);
+  return dx * dx + dy * dy + dz * dz;
+};
+
+/**
+ * Greedy nearest-neighbour matching. Each `from` point (visited in a shuffled
+ * order so no side of the shape is favoured) claims the closest unclaimed
+ * target, found in the k-d tree by visiting the nearer side of each split
+ * first and skipping nodes that are used up or can't hold anything closer.
+ */
+const matchNearest = (from: Float32Array, targets: Float32Array, count: number, random: Random): Uint32Array => {
+  const result = new Uint32Array(count);
+
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const tree = buildTree(targets, count);
+  const stack = new Int32Array(64 * 2);
+
+  for (let n = 0; n < count; n++) {
+    const i = order[n];
+    const px = from[i * 3];
+    const py = from[i * 3 + 1];
+    const pz = from[i * 3 + 2];
+
+    let best = -1;
+    let bestDist = Infinity;
+    let depth = 0;
+    stack[depth++] = 0;
+
+    while (depth > 0) {
+      const node = stack[--depth];
+      if (tree.remaining[node] === 0 || boxDistance(tree, node, px, py, pz) >= bestDist) continue;
+
+      const left = tree.left[node];
+      if (left === -1) {
+        for (let k = tree.start[node]; k < tree.end[node]; k++) {
+          if (tree.claimed[k]) continue;
+          const t = tree.points[k] * 3;
+          const d = (targets[t] - px) ** 2 + (targets[t + 1] - py) ** 2 + (targets[t + 2] - pz) ** 2;
+          if (d < bestDist) {
+            bestDist = d;
+            best = k;
+          }
+        }
+        continue;
+      }
+
+      // Nearer child on top of the stack, so it is searched first
+      const right = tree.right[node];
+      const leftFirst = boxDistance(tree, left, px, py, pz) <= boxDistance(tree, right, px, py, pz);
+      stack[depth++] = leftFirst ? right : left;
+      stack[depth++] = leftFirst ? left : right;
+    }
+
+    result[i] = tree.points[best];
+    tree.claimed[best] = 1;
+    for (let node = tree.leafOf[best]; node !== -1; node = tree.parent[node]) tree.remaining[node]--;
+  }
+
+  return result;
+};
+
+const SLICED_ITERATIONS = 24;
+
+/**
+ * Approximate optimal transport via sliced Wasserstein advection: proxies start
+ * at the `from` points and are repeatedly nudged so their 1D projection on a
+ * random axis matches the target's. The converged proxies sit on the target
+ * shape while preserving the source layout, so a final nearest match is short
+ * and crossing-free.
+ */
+const matchTransport = (from: Float32Array, targets: Float32Array, count: number, random: Random): Uint32Array => {
+  const proxies = new Float32Array(from.subarray(0, count * 3));
+  const proxyOrder = new Uint32Array(count);
+  const targetOrder = new Uint32Array(count);
+  const proxyKeys = new Float32Array(count);
+  const targetKeys = new Float32Array(count);
+
+  for (let iter = 0; iter < SLICED_ITERATIONS; iter++) {
+    // Random unit direction
+    const theta = random() * Math.PI * 2;
+    const z = random() * 2 - 1;
+    const r = Math.sqrt(1 - z * z);
+    const dx = Math.cos(theta) * r;
+    const dy = Math.sin(theta) * r;
+    const dz = z;
+
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      proxyOrder[i] = i;
+      targetOrder[i] = i;
+      proxyKeys[i] = proxies[i3] * dx + proxies[i3 + 1] * dy + proxies[i3 + 2] * dz;
+      targetKeys[i] = targets[i3] * dx + targets[i3 + 1] * dy + targets[i3 + 2] * dz;
+    }
+
+    proxyOrder.sort((a, b) => proxyKeys[a] - proxyKeys[b]);
+    targetOrder.sort((a, b) => targetKeys[a] - targetKeys[b]);
+
+    for (let k = 0; k < count; k++) {
+      const p = proxyOrder[k];
+      const shift = targetKeys[targetOrder[k]] - proxyKeys[p];
+      proxies[p * 3] += shift * dx;
+      proxies[p * 3 + 1] += shift * dy;
+      proxies[p * 3 + 2] += shift * dz;
+    }
+  }
+
+  return matchNearest(proxies, targets, count, random);
+};
+
+/**
+ * Pairs particles with target points. Particle `i` (currently resting at
+ * `from[i]`) should travel to target point `order[i]`.
+ */
+export const assignTargets = (
+  from: Float32Array,
+  targets: Float32Array,
+  strategy: AssignmentStrategy,
+  random: Random = Math.random
+): Uint32Array => {
+  const count = Math.min(from.length, targets.length) / 3;
+
+  switch (strategy) {
+    case AssignmentStrategy.NEAREST:
+      if (count > 0) return matchNearest(from, targets, count, random);
+      break;
+    case AssignmentStrategy.TRANSPORT:
+      if (count > 0) return matchTransport(from, targets, count, random);
+      break;
+  }
+
+  // RANDOM: keep the sampler's own order
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  return order;
+};
+
+/**
+ * Gathers a per-point buffer (`itemSize` floats per point) into assignment order.
+ */
+export const applyAssignment = (buffer: Float32Array, order: Uint32Array, itemSize: number): Float32Array => {
+  const result = new Float32Array(order.length * itemSize);
+  for (let i = 0; i < order.length; i++) {
+    const src = order[i] * itemSize;
+    for (let k = 0; k < itemSize; k++) {
+      result[i * itemSize + k] = buffer[src + k];
+    }
+  }
+  return result;
+};
+
+/**
+ * Pairs a sampled target with the particles currently at `from` and lays its
+ * positions and colors out in particle order.
+ */
+export const assignFrame = (from: Float32Array, target: SampledTarget, strategy: AssignmentStrategy, random: Random): MorphFrame => {
+  const order = assignTargets(from, target.positions, strategy, random);
+  const count = order.length;
+
+  const frame: MorphFrame = {
+    positions: applyAssignment(target.positions, order, 3),
+    colors: target.colors ? applyAssignment(target.colors, order, 4) : new Float32Array(count * 4),
+    edges: target.edges ? applyAssignment(target.edges, order, 1) : new Float32Array(count),
+  };
+  if (target.order) frame.order = applyAssignment(target.order, order, 1);
+  return frame;
+};
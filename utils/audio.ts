@@ -0,0 +1,154 @@
+import { AudioLevels, AudioSettings } from '../types';
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  sensitivity: 1.5,
+  displacement: 0.6,
+  pulse: 0.25,
+  bloom: 1.5,
+  color: 0.4,
+  beatAdvance: false,
+};
+
+export const SILENCE: AudioLevels = { level: 0, bass: 0, mid: 0, treble: 0, beat: false };
+
+const FFT_SIZE = 1024;
+const SMOOTHING = 0.7; // AnalyserNode's own averaging between reads
+
+// Band edges in Hz
+const BASS: [number, number] = [20, 250];
+const MID: [number, number] = [250, 2000];
+const TREBLE: [number, number] = [2000, 8000];
+
+// A beat is bass jumping this far over its recent average...
+const BEAT_RATIO = 1.4;
+// ...above a floor (so silence plus noise doesn't count)...
+const BEAT_FLOOR = 0.15;
+// ...at most this often, in seconds
+const BEAT_COOLDOWN = 0.25;
+// How fast the running bass average follows, 1/s
+const AVERAGE_RATE = 2;
+
+/**
+ * A live audio source feeding an AnalyserNode. Call `sample` once per
+ * rendered frame; `levels` holds the latest result for anything else that
+ * reacts in the same frame.
+ */
+export interface AudioAnalysis {
+  levels: AudioLevels;
+  sample: (delta: number) => AudioLevels;
+  close: () => void;
+}
+
+/**
+ * Scales a raw 0-1 level by the sensitivity, capped at 1.
+ */
+export const scaledLevel = (value: number, settings: AudioSettings): number => {
+  return Math.min(value * settings.sensitivity, 1);
+};
+
+const createAnalysis = (context: AudioContext, source: AudioNode, release: () => void): AudioAnalysis => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = SMOOTHING;
+  source.connect(analyser);
+
+  const bins = new Uint8Array(analyser.frequencyBinCount);
+  const binWidth = context.sampleRate / FFT_SIZE;
+
+  const bandLevel = ([low, high]: [number, number]) => {
+    const start = Math.max(Math.floor(low / binWidth), 0);
+    const end = Math.min(Math.ceil(high / binWidth), bins.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += bins[i];
+    return end > start ? sum / ((end - start) * 255) : 0;
+  };
+
+  let bassAverage = 0;
+  let cooldown = 0;
+
+  const analysis: AudioAnalysis = {
+    levels: { ...SILENCE },
+    sample: (delta) => {
+      analyser.getByteFrequencyData(bins);
+      const bass = bandLevel(BASS);
+      const mid = bandLevel(MID);
+      const treble = bandLevel(TREBLE);
+
+      cooldown = Math.max(cooldown - delta, 0);
+      const beat = cooldown === 0 && bass > BEAT_FLOOR && bass > bassAverage * BEAT_RATIO;
+      if (beat) cooldown = BEAT_COOLDOWN;
+      bassAverage += (bass - bassAverage) * Math.min(delta * AVERAGE_RATE, 1);
+
+      analysis.levels = { level: (bass + mid + treble) / 3, bass, mid, treble, beat };
+      return analysis.levels;
+    },
+    close: () => {
+      source.disconnect();
+      release();
+      context.close();
+    },
+  };
+  return analysis;
+};
+
+/**
+ * Listens to the default microphone (browser processing off, so music isn't
+ * treated as noise to suppress). Not routed to the speakers.
+ */
+export const openMicrophone = async (): Promise<AudioAnalysis> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('Microphone input is not available in this browser');
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+  } catch (err) {
+    throw new Error(err instanceof DOMException && err.name === 'NotAllowedError'
+      ? 'Microphone permission was denied'
+      : 'Could not open the microphone');
+  }
+
+  const stopTracks = () => stream.getTracks().forEach((track) => track.stop());
+  let context: AudioContext | null = null;
+  try {
+    context = new AudioContext();
+    return createAnalysis(context, context.createMediaStreamSource(stream), stopTracks);
+  } catch {
+    // Don't leave the microphone live when the audio graph can't be built
+    stopTracks();
+    context?.close();
+    throw new Error('Could not start audio analysis');
+  }
+};
+
+/**
+ * Plays an audio file on a loop (audibly) and analyses it.
+ */
+export const openAudioFile = async (file: File): Promise<AudioAnalysis> => {
+  const url = URL.createObjectURL(file);
+  const element = new Audio(url);
+  element.loop = true;
+
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(element);
+  source.connect(context.destination);
+
+  const release = () => {
+    element.pause();
+    URL.revokeObjectURL(url);
+  };
+
+  try {
+    await element.play();
+  } catch {
+    source.disconnect();
+    release();
+    context.close();
+    throw new Error(`Could not play ${file.name}`);
+  }
+
+  return createAnalysis(context, source, release);
+};
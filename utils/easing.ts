@@ -0,0 +1,62 @@
+import { EasingName, TransitionTiming } from '../types';
+import { smoothStep } from './particleUtils';
+
+// Overshoot of the back curves (about 10%)
+const BACK = 1.70158;
+const BACK_IN_OUT = BACK * 1.525;
+// One elastic period, as a fraction of the transition
+const ELASTIC_PERIOD = 0.3;
+
+const easeOutBounce = (t: number): number => {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+};
+
+const easeOutElastic = (t: number): number => {
+  if (t <= 0 || t >= 1) return t <= 0 ? 0 : 1;
+  return Math.pow(2, -10 * t) * Math.sin(((t - ELASTIC_PERIOD / 4) * 2 * Math.PI) / ELASTIC_PERIOD) + 1;
+};
+
+/**
+ * Easing curves for duration-based morphs. Each maps 0-1 progress to a value
+ * that starts at 0 and ends at 1; back and elastic curves overshoot on the
+ * way (below 0 or above 1), which carries particles past their target and
+ * back.
+ */
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  smoothStep,
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInBack: (t) => (BACK + 1) * t * t * t - BACK * t * t,
+  easeOutBack: (t) => 1 + (BACK + 1) * Math.pow(t - 1, 3) + BACK * Math.pow(t - 1, 2),
+  easeInOutBack: (t) => (t < 0.5
+    ? (Math.pow(2 * t, 2) * ((BACK_IN_OUT + 1) * 2 * t - BACK_IN_OUT)) / 2
+    : (Math.pow(2 * t - 2, 2) * ((BACK_IN_OUT + 1) * (t * 2 - 2) + BACK_IN_OUT) + 2) / 2),
+  easeInElastic: (t) => 1 - easeOutElastic(1 - t),
+  easeOutElastic,
+  easeInOutElastic: (t) => (t < 0.5 ? (1 - easeOutElastic(1 - 2 * t)) / 2 : (1 + easeOutElastic(2 * t - 1)) / 2),
+  easeInBounce: (t) => 1 - easeOutBounce(1 - t),
+  easeOutBounce,
+  easeInOutBounce: (t) => (t < 0.5 ? (1 - easeOutBounce(1 - 2 * t)) / 2 : (1 + easeOutBounce(2 * t - 1)) / 2),
+};
+
+export const EASING_NAMES = Object.keys(EASINGS) as EasingName[];
+
+/** Timing of a morph when nothing else (e.g. a sequence step) sets one. */
+export const DEFAULT_TRANSITION: TransitionTiming = { duration: 1.5, easing: 'easeInOutCubic' };
+
+/**
+ * Samples an easing at `out.length` evenly spaced points from 0 to 1, for
+ * shaders that ease per particle (see `uEaseCurve`).
+ */
+export const sampleEasing = (easing: (t: number) => number, out: Float32Array): Float32Array => {
+  const last = Math.max(out.length - 1, 1);
+  for (let i = 0; i < out.length; i++) out[i] = easing(i / last);
+  return out;
+};
@@ -0,0 +1,53 @@
+import { EffectSettings, Look } from '../types';
+
+export const DEFAULT_EFFECTS: EffectSettings = {
+  bloom: { enabled: true, threshold: 0.2, smoothing: 0.9, intensity: 1.2 },
+  chromaticAberration: { enabled: false, offset: 0.002 },
+  vignette: { enabled: false, offset: 0.3, darkness: 0.7 },
+  noise: { enabled: false, opacity: 0.15 },
+  depthOfField: { enabled: false, range: 3, bokeh: 3 },
+  glitch: { enabled: false, strength: 0.3, duration: 0.3 },
+};
+
+/**
+ * Looks that ship with the app; saved looks are listed after these.
+ */
+export const BUILT_IN_LOOKS: Look[] = [
+  { name: 'Clean', effects: DEFAULT_EFFECTS },
+  {
+    name: 'Cinematic',
+    effects: {
+      ...DEFAULT_EFFECTS,
+      bloom: { ...DEFAULT_EFFECTS.bloom, intensity: 1.5 },
+      vignette: { enabled: true, offset: 0.25, darkness: 0.85 },
+      depthOfField: { enabled: true, range: 2.5, bokeh: 3 },
+      noise: { enabled: true, opacity: 0.08 },
+    },
+  },
+  {
+    name: 'Dream',
+    effects: {
+      ...DEFAULT_EFFECTS,
+      bloom: { enabled: true, threshold: 0.05, smoothing: 0.95, intensity: 2.5 },
+      depthOfField: { enabled: true, range: 1.5, bokeh: 5 },
+      vignette: { enabled: true, offset: 0.4, darkness: 0.5 },
+    },
+  },
+  {
+    name: 'VHS',
+    effects: {
+      ...DEFAULT_EFFECTS,
+      chromaticAberration: { enabled: true, offset: 0.004 },
+      noise: { enabled: true, opacity: 0.3 },
+      vignette: { enabled: true, offset: 0.2, darkness: 0.9 },
+      glitch: { enabled: true, strength: 0.5, duration: 0.4 },
+    },
+  },
+  {
+    name: 'Raw',
+    effects: {
+      ...DEFAULT_EFFECTS,
+      bloom: { ...DEFAULT_EFFECTS.bloom, enabled: false },
+    },
+  },
+];
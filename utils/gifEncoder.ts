@@ -0,0 +1,195 @@
+// 5 bits per channel: 32768 histogram buckets
+const BUCKET_BITS = 5;
+const BUCKETS = 1 << (BUCKET_BITS * 3);
+const PALETTE_SIZE = 256;
+const MAX_CODE = 4095;
+
+const bucketOf = (r: number, g: number, b: number) => {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+};
+
+/**
+ * Median-cut quantization over a 15-bit color histogram. Returns the palette
+ * (256 rgb triples) and a bucket → palette index lookup.
+ */
+const quantize = (pixels: Uint8ClampedArray): { palette: Uint8Array; lookup: Uint8Array } => {
+  const histogram = new Uint32Array(BUCKETS);
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[bucketOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  }
+
+  const used: number[] = [];
+  for (let b = 0; b < BUCKETS; b++) if (histogram[b] > 0) used.push(b);
+
+  const channel = (bucket: number, c: number) => (bucket >> (10 - c * 5)) & 31;
+
+  // Each box is a list of buckets; split the most populated box along its
+  // widest channel at the pixel-weighted median until the palette is full.
+  const boxes: number[][] = [used];
+  while (boxes.length < PALETTE_SIZE) {
+    let pick = -1;
+    let pickWeight = 0;
+    let pickChannel = 0;
+    for (let n = 0; n < boxes.length; n++) {
+      const box = boxes[n];
+      if (box.length < 2) continue;
+      let widest = 0, widestRange = -1, weight = 0;
+      for (let c = 0; c < 3; c++) {
+        let min = 31, max = 0;
+        for (const bucket of box) {
+          const v = channel(bucket, c);
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+        if (max - min > widestRange) {
+          widestRange = max - min;
+          widest = c;
+        }
+      }
+      for (const bucket of box) weight += histogram[bucket];
+      if (widestRange > 0 && weight > pickWeight) {
+        pick = n;
+        pickWeight = weight;
+        pickChannel = widest;
+      }
+    }
+    if (pick === -1) break;
+
+    const box = boxes[pick].sort((a, b) => channel(a, pickChannel) - channel(b, pickChannel));
+    let half = 0;
+    let split = 1;
+    for (; split < box.length - 1; split++) {
+      half += histogram[box[split - 1]];
+      if (half * 2 >= pickWeight) break;
+    }
+    boxes.splice(pick, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  const lookup = new Uint8Array(BUCKETS);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0, weight = 0;
+    for (const bucket of box) {
+      const w = histogram[bucket];
+      r += (channel(bucket, 0) * 8 + 4) * w;
+      g += (channel(bucket, 1) * 8 + 4) * w;
+      b += (channel(bucket, 2) * 8 + 4) * w;
+      weight += w;
+      lookup[bucket] = index;
+    }
+    if (weight > 0) {
+      palette[index * 3] = Math.round(r / weight);
+      palette[index * 3 + 1] = Math.round(g / weight);
+      palette[index * 3 + 2] = Math.round(b / weight);
+    }
+  });
+
+  return { palette, lookup };
+};
+
+/**
+ * Variable-width LZW as GIF specifies it, packed into 255-byte sub-blocks.
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const out: number[] = [];
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const write = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.push(255, ...block);
+        block.length = 0;
+      }
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode > MAX_CODE) {
+      write(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode === 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  write(prefix);
+  write(endCode);
+
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  if (block.length > 0) out.push(block.length, ...block);
+  out.push(0);
+  return out;
+};
+
+/**
+ * Streaming animated GIF writer: looping, one 256-color local palette per
+ * frame. Frame delays are accumulated in centiseconds so odd frame rates
+ * don't drift.
+ */
+export const createGifEncoder = (width: number, height: number, fps: number) => {
+  const parts: Uint8Array[] = [];
+  let frameIndex = 0;
+
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+  parts.push(new Uint8Array([
+    ...Array.from('GIF89a', (ch) => ch.charCodeAt(0)),
+    ...u16(width), ...u16(height),
+    0x00, 0x00, 0x00, // No global color table
+    // NETSCAPE2.0 application extension: loop forever
+    0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', (ch) => ch.charCodeAt(0)), 0x03, 0x01, 0x00, 0x00, 0x00,
+  ]));
+
+  const addFrame = (image: ImageData) => {
+    const { palette, lookup } = quantize(image.data);
+    const pixels = image.data;
+    const indices = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = lookup[bucketOf(pixels[p], pixels[p + 1], pixels[p + 2])];
+    }
+
+    const delay = Math.round(((frameIndex + 1) * 100) / fps) - Math.round((frameIndex * 100) / fps);
+    frameIndex++;
+
+    parts.push(new Uint8Array([
+      0x21, 0xf9, 0x04, 0x00, ...u16(Math.max(delay, 2)), 0x00, 0x00, // Graphic control
+      0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0x87,            // Descriptor + 256-entry local table
+    ]));
+    parts.push(palette);
+    parts.push(new Uint8Array([8, ...lzwEncode(indices, 8)]));
+  };
+
+  const finish = (): Blob => {
+    parts.push(new Uint8Array([0x3b]));
+    return new Blob(parts, { type: 'image/gif' });
+  };
+
+  return { addFrame, finish };
+};
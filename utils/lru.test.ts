@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createLruCache } from './lru';
+
+describe('createLruCache', () => {
+  it('evicts the oldest entry once over capacity', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+    expect(cache.size).toBe(2);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('keeps an entry that was just read', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+  });
+
+  it('refreshes an entry that is set again', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+    expect(cache.get('a')).toBe(10);
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('does not refresh on a miss', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    expect(cache.get('z')).toBeUndefined();
+    expect(cache.size).toBe(1);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Map-backed least-recently-used cache: reads and writes refresh an entry,
+ * and going over `capacity` evicts the entry untouched the longest.
+ */
+export const createLruCache = <K, V>(capacity: number) => {
+  const entries = new Map<K, V>();
+
+  return {
+    get: (key: K): V | undefined => {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key) as V;
+      // Maps iterate in insertion order, so re-inserting marks it most recent
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set: (key: K, value: V) => {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > capacity) {
+        entries.delete(entries.keys().next().value as K);
+      }
+    },
+    delete: (key: K) => entries.delete(key),
+    clear: () => entries.clear(),
+    get size() {
+      return entries.size;
+    },
+  };
+};
+
+export type LruCache<K, V> = ReturnType<typeof createLruCache<K, V>>;
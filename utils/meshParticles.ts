@@ -0,0 +1,32 @@
+import * as THREE from 'three';
+import { MeshSettings, ParticleGeometry } from '../types';
+
+export const DEFAULT_MESH: MeshSettings = {
+  renderer: 'points',
+  geometry: 'icosahedron',
+  size: 0.12,
+  spin: 1,
+  shadows: true,
+};
+
+/** Mesh particle shapes in the order the settings list them. */
+export const PARTICLE_GEOMETRIES: readonly ParticleGeometry[] = ['sphere', 'cube', 'tetrahedron', 'octahedron', 'icosahedron'];
+
+/**
+ * Geometry for one mesh particle, about 1 unit across (the shader scales it).
+ * Kept to a few dozen triangles, since it is drawn once per particle.
+ */
+export const createParticleGeometry = (kind: ParticleGeometry): THREE.BufferGeometry => {
+  switch (kind) {
+    case 'sphere':
+      return new THREE.SphereGeometry(0.5, 8, 6);
+    case 'cube':
+      return new THREE.BoxGeometry(0.8, 0.8, 0.8);
+    case 'tetrahedron':
+      return new THREE.TetrahedronGeometry(0.6);
+    case 'octahedron':
+      return new THREE.OctahedronGeometry(0.55);
+    case 'icosahedron':
+      return new THREE.IcosahedronGeometry(0.5);
+  }
+};
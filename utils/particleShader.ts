@@ -0,0 +1,570 @@
+import * as THREE from 'three';
+import { ColorMode, MeshSettings } from '../types';
+import { MAX_TRAIL_LENGTH, TrailHistory } from './trails';
+
+/** Points the easing curve is sampled at for per-particle easing (`uEaseCurve`). */
+export const EASE_SAMPLES = 64;
+
+/** Color modes in the order the shader numbers them (`uColorMode`). */
+export const COLOR_MODES: readonly ColorMode[] = ['solid', 'linear', 'radial', 'edge', 'height', 'rainbow'];
+
+/**
+ * Theme coloring shared by the particle and trail shaders: the color scheme
+ * at a particle's position, crossfaded between modes, and overridden by a
+ * target's own colors as it forms.
+ */
+const colorChunk = /* glsl */ `
+  uniform float uTime;
+  uniform vec3 uColor;
+  uniform vec3 uColor2;
+  uniform float uColorMode;      // Index into COLOR_MODES
+  uniform float uPrevColorMode;
+  uniform float uModeBlend;      // Previous → current color mode
+  uniform vec4 uRestBounds;      // Local xy min (xy) and max (zw)
+  uniform vec4 uTargetBounds;
+
+  vec2 boundsUv(vec2 p, vec4 bounds) {
+    return clamp((p - bounds.xy) / max(bounds.zw - bounds.xy, vec2(1e-4)), 0.0, 1.0);
+  }
+
+  vec3 hue(float h) {
+    return clamp(abs(mod(h * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+  }
+
+  vec3 schemeColor(float mode, vec2 uv, float edge) {
+    if (mode < 0.5) return uColor;
+    if (mode < 1.5) return mix(uColor, uColor2, uv.x);
+    if (mode < 2.5) return mix(uColor, uColor2, clamp(length(uv - 0.5) * 2.0, 0.0, 1.0));
+    if (mode < 3.5) return mix(uColor2, uColor, edge);
+    if (mode < 4.5) return mix(uColor2, uColor, uv.y);
+    return hue(fract(uv.x * 0.5 + uv.y * 0.25 - uTime * 0.1));
+  }
+
+  // Theme colors by position within the shape on screen (the resting shape
+  // has no outline, so edge mode fades in with the target). Targets with
+  // their own colors (images) override the theme color as they form.
+  vec3 particleColor(vec3 restPos, vec3 targetPos, float morph, float targetEdge, vec4 targetColor) {
+    vec2 uv = mix(boundsUv(restPos.xy, uRestBounds), boundsUv(targetPos.xy, uTargetBounds), morph);
+    float edge = targetEdge * morph;
+    vec3 scheme = mix(schemeColor(uPrevColorMode, uv, edge), schemeColor(uColorMode, uv, edge), uModeBlend);
+    return mix(scheme, targetColor.rgb, targetColor.a * morph);
+  }
+`;
+
+/**
+ * In-flight jitter and audio push, shared by the points and the mesh
+ * particles so both put a particle in the same place.
+ */
+const motionChunk = /* glsl */ `
+  uniform float uWobble;       // In-flight jitter strength
+  uniform float uAudioPush;    // Audio displacement, outward from the center
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  vec3 particleMotion(vec3 pos, float seed) {
+    // Per-frame jitter while in flight, re-rolled every 1/60s from the seeded aSeed
+    float frame = mod(floor(uTime * 60.0), 4096.0);
+    vec3 noise = vec3(
+      hash(vec2(seed, frame)),
+      hash(vec2(seed + 17.0, frame)),
+      hash(vec2(seed + 31.0, frame))
+    ) - 0.5;
+    pos += noise * uWobble * vec3(0.2, 0.2, 0.5);
+
+    // Audio: each particle pushed out by its own share of the level
+    return pos + normalize(pos + vec3(0.0, 0.0, 1e-4)) * uAudioPush * fract(seed * 0.618);
+  }
+`;
+
+/**
+ * Staggered morphs, shared by every shader that places particles: each one
+ * starts `aDelay` (0-1) of the way into the stagger window, which takes up
+ * `uStagger` of the transition, and eases over the rest of it along the
+ * sampled curve. Without stagger all particles share the exactly eased
+ * `uMorph`.
+ */
+const staggerChunk = /* glsl */ `
+  #define EASE_SAMPLES ${EASE_SAMPLES}
+
+  uniform float uProgress;   // Resting shape → target before easing
+  uniform float uStagger;    // Share of the transition start times spread over
+  uniform float uEaseCurve[EASE_SAMPLES];
+
+  float easeCurve(float t) {
+    float x = clamp(t, 0.0, 1.0) * float(EASE_SAMPLES - 1);
+    int i = int(floor(x));
+    return mix(uEaseCurve[i], uEaseCurve[min(i + 1, EASE_SAMPLES - 1)], fract(x));
+  }
+
+  float particleMorph(float progress, float delay) {
+    return easeCurve((progress - delay * uStagger) / max(1.0 - uStagger, 1e-3));
+  }
+
+  float staggeredMorph(float eased, float progress, float delay) {
+    return uStagger > 0.0 ? particleMorph(progress, delay) : eased;
+  }
+`;
+
+/**
+ * GPU morph shader for the particle cloud.
+ *
+ * Resting shape (`aPrevRest` → `position`) and target (`aPrevTarget` →
+ * `aTarget`) buffers are uploaded once; the vertex shader does the blends,
+ * the in-flight wobble and the "flashlight" lighting that used to run per
+ * particle on the CPU. Easing happens on the CPU: the blend uniforms arrive
+ * already eased, except for staggered morphs, which ease per particle from
+ * the raw progress. In physics mode the CPU integrates positions itself and
+ * `uSimulate` switches the shader over to `aSimPosition`. Audio arrives as
+ * three amounts: resting shape scale, outward push and a wash toward white.
+ *
+ * Depth of field is done here too rather than as a post effect, since the
+ * particles don't write depth: points away from the focus distance grow into
+ * larger, dimmer discs (same total light) up to `uBokeh` times their size.
+ *
+ * Color modes are evaluated per particle from where it sits inside the
+ * bounds of its resting shape and target (`uRestBounds`, `uTargetBounds`);
+ * switching modes crossfades from the previous one over `uModeBlend`.
+ */
+export const particleVertexShader = /* glsl */ `
+  uniform float uMorph;        // Resting shape → target
+  uniform float uRestBlend;    // Previous → current resting shape
+  uniform float uTargetBlend;  // Previous → current target
+  uniform vec2 uPointer;
+  uniform float uSize;
+  uniform float uScale;
+  uniform float uSimulate;     // 1 = use the CPU-simulated position
+  uniform float uRestScale;    // Audio pulse on the resting shape
+  uniform float uAudioColor;   // Audio wash toward white, 0-1
+  uniform float uFocusDistance; // View-space distance kept sharp
+  uniform float uFocusRange;    // Distance from focus to full blur
+  uniform float uBokeh;         // Extra size at full blur, 0 = off
+
+  attribute vec3 aPrevRest;
+  attribute vec3 aPrevTarget;
+  attribute vec3 aTarget;
+  attribute vec4 aPrevTargetColor;
+  attribute vec4 aTargetColor;
+  attribute float aPrevTargetEdge;
+  attribute float aTargetEdge;
+  attribute float aSeed;
+  attribute float aDelay;
+  attribute vec3 aSimPosition;
+
+  varying float vLight;
+  varying vec3 vColor;
+  varying float vFocus;
+
+  ${colorChunk}
+  ${motionChunk}
+  ${staggerChunk}
+
+  #include <fog_pars_vertex>
+
+  void main() {
+    // Shape → shape and target → target: blend from what was on screen to the new buffer
+    vec3 restPos = mix(aPrevRest, position, uRestBlend) * uRestScale;
+    vec3 targetPos = mix(aPrevTarget, aTarget, uTargetBlend);
+    float morph = staggeredMorph(uMorph, uProgress, aDelay);
+
+    vec3 pos = mix(mix(restPos, targetPos, morph), aSimPosition, uSimulate);
+
+    vColor = particleColor(
+      restPos,
+      targetPos,
+      morph,
+      mix(aPrevTargetEdge, aTargetEdge, uTargetBlend),
+      mix(aPrevTargetColor, aTargetColor, uTargetBlend)
+    );
+    vColor = mix(vColor, vec3(1.0), uAudioColor);
+
+    pos = particleMotion(pos, aSeed);
+
+    // Flashlight: ambient (0.5) + light hovering in front of the pointer
+    vec3 toLight = pos - vec3(uPointer, 2.0);
+    vLight = 0.5 + 25.0 / (dot(toLight, toLight) + 10.0);
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    float blur = 1.0 + uBokeh * clamp(abs(-mvPosition.z - uFocusDistance) / uFocusRange, 0.0, 1.0);
+    vFocus = 1.0 / (blur * blur);
+    gl_PointSize = uSize * (uScale / -mvPosition.z) * blur;
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <fog_vertex>
+  }
+`;
+
+export const particleFragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  uniform sampler2D uMap;
+
+  varying float vLight;
+  varying vec3 vColor;
+  varying float vFocus;
+
+  #include <fog_pars_fragment>
+
+  void main() {
+    vec4 color = vec4(vColor * vLight, uOpacity * vFocus) * texture2D(uMap, gl_PointCoord);
+    if (color.a < 0.01) discard;
+
+    gl_FragColor = color;
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`;
+
+export interface ParticleUniforms {
+  [uniform: string]: THREE.IUniform;
+  uMorph: THREE.IUniform<number>;
+  uProgress: THREE.IUniform<number>;
+  uStagger: THREE.IUniform<number>;
+  uEaseCurve: THREE.IUniform<Float32Array>;
+  uRestBlend: THREE.IUniform<number>;
+  uTargetBlend: THREE.IUniform<number>;
+  uWobble: THREE.IUniform<number>;
+  uTime: THREE.IUniform<number>;
+  uPointer: THREE.IUniform<THREE.Vector2>;
+  uSize: THREE.IUniform<number>;
+  uScale: THREE.IUniform<number>;
+  uSimulate: THREE.IUniform<number>;
+  uRestScale: THREE.IUniform<number>;
+  uAudioPush: THREE.IUniform<number>;
+  uAudioColor: THREE.IUniform<number>;
+  uFocusDistance: THREE.IUniform<number>;
+  uFocusRange: THREE.IUniform<number>;
+  uBokeh: THREE.IUniform<number>;
+  uColor: THREE.IUniform<THREE.Color>;
+  uColor2: THREE.IUniform<THREE.Color>;
+  uColorMode: THREE.IUniform<number>;
+  uPrevColorMode: THREE.IUniform<number>;
+  uModeBlend: THREE.IUniform<number>;
+  uRestBounds: THREE.IUniform<THREE.Vector4>;
+  uTargetBounds: THREE.IUniform<THREE.Vector4>;
+  uOpacity: THREE.IUniform<number>;
+  uMap: THREE.IUniform<THREE.Texture | null>;
+}
+
+/**
+ * Builds the uniform block for the particle shader. Frame-varying values
+ * (blends, wobble, time, pointer, scale, colors, audio, focus) are written
+ * from `useFrame`; the easing curve when the transition's easing changes.
+ */
+export const createParticleUniforms = (
+  color: string,
+  map: THREE.Texture,
+  size: number,
+  secondaryColor: string = color,
+  colorMode: ColorMode = 'solid'
+): ParticleUniforms => {
+  const mode = COLOR_MODES.indexOf(colorMode);
+  // Merge clones values, so the texture is assigned afterwards to keep it shared
+  const uniforms = THREE.UniformsUtils.merge([
+    THREE.UniformsLib.fog,
+    {
+      uMorph: { value: 0 },
+      uProgress: { value: 0 },
+      uStagger: { value: 0 },
+      uEaseCurve: { value: new Float32Array(EASE_SAMPLES) },
+      uRestBlend: { value: 1 },
+      uTargetBlend: { value: 1 },
+      uWobble: { value: 0 },
+      uTime: { value: 0 },
+      uPointer: { value: new THREE.Vector2() },
+      uSize: { value: size },
+      uScale: { value: 1 },
+      uSimulate: { value: 0 },
+      uRestScale: { value: 1 },
+      uAudioPush: { value: 0 },
+      uAudioColor: { value: 0 },
+      uFocusDistance: { value: 12 },
+      uFocusRange: { value: 1 },
+      uBokeh: { value: 0 },
+      uColor: { value: new THREE.Color(color) },
+      uColor2: { value: new THREE.Color(secondaryColor) },
+      uColorMode: { value: mode },
+      uPrevColorMode: { value: mode },
+      uModeBlend: { value: 1 },
+      uRestBounds: { value: new THREE.Vector4(-1, -1, 1, 1) },
+      uTargetBounds: { value: new THREE.Vector4(-1, -1, 1, 1) },
+      uOpacity: { value: 0.9 },
+      uMap: { value: null },
+    },
+  ]) as ParticleUniforms;
+
+  uniforms.uMap.value = map;
+  return uniforms;
+};
+
+const boundsUv = (x: number, y: number, bounds: THREE.Vector4): [number, number] => [
+  Math.min(Math.max((x - bounds.x) / Math.max(bounds.z - bounds.x, 1e-4), 0), 1),
+  Math.min(Math.max((y - bounds.y) / Math.max(bounds.w - bounds.y, 1e-4), 0), 1),
+];
+
+const schemeColor = (uniforms: ParticleUniforms, mode: number, u: number, v: number, edge: number, out: THREE.Color) => {
+  const { uColor, uColor2 } = uniforms;
+  if (mode < 0.5) return out.copy(uColor.value);
+  if (mode < 1.5) return out.lerpColors(uColor.value, uColor2.value, u);
+  if (mode < 2.5) return out.lerpColors(uColor.value, uColor2.value, Math.min(Math.hypot(u - 0.5, v - 0.5) * 2, 1));
+  if (mode < 3.5) return out.lerpColors(uColor2.value, uColor.value, edge);
+  if (mode < 4.5) return out.lerpColors(uColor2.value, uColor.value, v);
+  const h = u * 0.5 + v * 0.25 - uniforms.uTime.value * 0.1;
+  const channel = (offset: number) => Math.min(Math.max(Math.abs((((h - Math.floor(h)) * 6 + offset) % 6) - 3) - 1, 0), 1);
+  return out.setRGB(channel(0), channel(4), channel(2));
+};
+
+const previousScheme = new THREE.Color();
+const ownColor = new THREE.Color();
+const WHITE = new THREE.Color(1, 1, 1);
+
+/**
+ * The color the particle shaders give one particle under the current
+ * uniforms (`particleColor` plus the audio wash), in linear RGB, for code
+ * that reads the scene back on the CPU.
+ */
+export const particleColorAt = (
+  uniforms: ParticleUniforms,
+  restPos: THREE.Vector3,
+  targetPos: THREE.Vector3,
+  morph: number,
+  targetEdge: number,
+  targetColor: THREE.Vector4,
+  out: THREE.Color
+): THREE.Color => {
+  const [restU, restV] = boundsUv(restPos.x, restPos.y, uniforms.uRestBounds.value);
+  const [targetU, targetV] = boundsUv(targetPos.x, targetPos.y, uniforms.uTargetBounds.value);
+  const u = restU + (targetU - restU) * morph;
+  const v = restV + (targetV - restV) * morph;
+  const edge = targetEdge * morph;
+
+  schemeColor(uniforms, uniforms.uPrevColorMode.value, u, v, edge, previousScheme);
+  schemeColor(uniforms, uniforms.uColorMode.value, u, v, edge, out);
+  out.lerpColors(previousScheme, out, uniforms.uModeBlend.value);
+  out.lerp(ownColor.setRGB(targetColor.x, targetColor.y, targetColor.z), targetColor.w * morph);
+  return out.lerp(WHITE, uniforms.uAudioColor.value);
+};
+
+/**
+ * Line trails: one instanced segment strip per particle, drawn through the
+ * positions it had at each recorded step (`uTrailState` / `uTrailMatrix`,
+ * newest first). The strip's own `position.x` is its step index; the morph
+ * buffers arrive as instanced attributes and are blended like the points
+ * shader blends them (without jitter or audio push). States record the raw
+ * morph progress, eased here so staggered particles trail their own path.
+ * Colors use the live state and fade toward the tail.
+ */
+export const trailVertexShader = /* glsl */ `
+  #define MAX_TRAIL ${MAX_TRAIL_LENGTH}
+
+  uniform vec4 uTrailState[MAX_TRAIL];  // Morph progress, rest blend, target blend, rest scale
+  uniform mat4 uTrailMatrix[MAX_TRAIL]; // World matrix of the particles at each step
+  uniform float uTrailLength;
+  uniform float uMorph;
+  uniform float uRestBlend;
+  uniform float uTargetBlend;
+
+  attribute vec3 aPrevRest;
+  attribute vec3 aRest;
+  attribute vec3 aPrevTarget;
+  attribute vec3 aTarget;
+  attribute vec4 aPrevTargetColor;
+  attribute vec4 aTargetColor;
+  attribute float aPrevTargetEdge;
+  attribute float aTargetEdge;
+  attribute float aDelay;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  ${colorChunk}
+  ${staggerChunk}
+
+  #include <fog_pars_vertex>
+
+  void main() {
+    int step = int(position.x);
+    vec4 state = uTrailState[step];
+
+    vec3 restPos = mix(aPrevRest, aRest, state.y) * state.w;
+    vec3 targetPos = mix(aPrevTarget, aTarget, state.z);
+    vec3 pos = mix(restPos, targetPos, particleMorph(state.x, aDelay));
+
+    vColor = particleColor(
+      mix(aPrevRest, aRest, uRestBlend),
+      mix(aPrevTarget, aTarget, uTargetBlend),
+      staggeredMorph(uMorph, uProgress, aDelay),
+      mix(aPrevTargetEdge, aTargetEdge, uTargetBlend),
+      mix(aPrevTargetColor, aTargetColor, uTargetBlend)
+    );
+    vAlpha = 1.0 - position.x / max(uTrailLength - 1.0, 1.0);
+
+    vec4 mvPosition = viewMatrix * uTrailMatrix[step] * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    #include <fog_vertex>
+  }
+`;
+
+export const trailFragmentShader = /* glsl */ `
+  uniform float uTrailOpacity;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  #include <fog_pars_fragment>
+
+  void main() {
+    gl_FragColor = vec4(vColor, vAlpha * uTrailOpacity);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`;
+
+export interface TrailUniforms extends ParticleUniforms {
+  uTrailState: THREE.IUniform<THREE.Vector4[]>;
+  uTrailMatrix: THREE.IUniform<THREE.Matrix4[]>;
+  uTrailLength: THREE.IUniform<number>;
+  uTrailOpacity: THREE.IUniform<number>;
+}
+
+/**
+ * Uniforms for the trail shader. The particle uniform objects are shared
+ * rather than copied, so colors, blends and fog stay in step without being
+ * written twice; the history arrays are read as they are updated in place.
+ */
+export const createTrailUniforms = (particle: ParticleUniforms, history: TrailHistory): TrailUniforms => ({
+  ...particle,
+  uTrailState: { value: history.states },
+  uTrailMatrix: { value: history.matrices },
+  uTrailLength: { value: MAX_TRAIL_LENGTH },
+  uTrailOpacity: { value: 0.5 },
+});
+
+/**
+ * Mesh particles: the same morph as the points (buffers arrive as instanced
+ * attributes, `aRest` standing in for `position`), spliced into three's
+ * standard material so lights, shadows and fog work as for any mesh. Each
+ * instance turns about its own axis as the morph runs, up to `uSpin`
+ * half-turns, and its size varies per particle, dips in flight and tightens
+ * on target outlines.
+ */
+const meshVertexChunk = /* glsl */ `
+  uniform float uMorph;
+  uniform float uRestBlend;
+  uniform float uTargetBlend;
+  uniform float uSimulate;
+  uniform float uRestScale;
+  uniform float uAudioColor;
+  uniform float uMeshSize;
+  uniform float uSpin;
+
+  attribute vec3 aPrevRest;
+  attribute vec3 aRest;
+  attribute vec3 aPrevTarget;
+  attribute vec3 aTarget;
+  attribute vec4 aPrevTargetColor;
+  attribute vec4 aTargetColor;
+  attribute float aPrevTargetEdge;
+  attribute float aTargetEdge;
+  attribute float aSeed;
+  attribute float aDelay;
+  attribute vec3 aSimPosition;
+
+  varying vec3 vParticleColor;
+
+  ${colorChunk}
+  ${motionChunk}
+  ${staggerChunk}
+
+  // Rodrigues rotation about this instance's own (seeded) axis
+  vec3 spinParticle(vec3 v) {
+    vec3 axis = normalize(vec3(hash(vec2(aSeed, 1.0)), hash(vec2(aSeed, 2.0)), hash(vec2(aSeed, 3.0))) - 0.5 + 1e-4);
+    float angle = uSpin * PI * staggeredMorph(uMorph, uProgress, aDelay) * (hash(vec2(aSeed, 4.0)) * 2.0 - 1.0);
+    float c = cos(angle);
+    float s = sin(angle);
+    return v * c + cross(axis, v) * s + axis * dot(axis, v) * (1.0 - c);
+  }
+`;
+
+const meshTransform = /* glsl */ `
+  vec3 restPos = mix(aPrevRest, aRest, uRestBlend) * uRestScale;
+  vec3 targetPos = mix(aPrevTarget, aTarget, uTargetBlend);
+  float targetEdge = mix(aPrevTargetEdge, aTargetEdge, uTargetBlend);
+  float morph = staggeredMorph(uMorph, uProgress, aDelay);
+  vec3 center = particleMotion(mix(mix(restPos, targetPos, morph), aSimPosition, uSimulate), aSeed);
+
+  float scale = uMeshSize * (0.7 + 0.6 * hash(vec2(aSeed, 5.0)))
+    * (1.0 - 0.4 * sin(morph * PI))
+    * mix(1.0, 0.75, targetEdge * morph);
+  vec3 transformed = center + spinParticle(position) * scale;
+`;
+
+const meshColor = /* glsl */ `
+  vParticleColor = particleColor(
+    restPos,
+    targetPos,
+    morph,
+    targetEdge,
+    mix(aPrevTargetColor, aTargetColor, uTargetBlend)
+  );
+  vParticleColor = mix(vParticleColor, vec3(1.0), uAudioColor);
+`;
+
+export interface MeshUniforms extends ParticleUniforms {
+  uMeshSize: THREE.IUniform<number>;
+  uSpin: THREE.IUniform<number>;
+}
+
+/**
+ * Uniforms for the mesh particle materials, sharing the particle uniform
+ * objects like the trails do.
+ */
+export const createMeshUniforms = (particle: ParticleUniforms, settings: MeshSettings): MeshUniforms => ({
+  ...particle,
+  uMeshSize: { value: settings.size },
+  uSpin: { value: settings.spin },
+});
+
+// Hands the morph uniforms to a compiled built-in material (by reference) and
+// splices the morph into its vertex shader
+const injectMorph = (shader: THREE.WebGLProgramParametersWithUniforms, uniforms: MeshUniforms, withColor: boolean) => {
+  for (const name in uniforms) {
+    // Fog uniforms come with the built-in material already
+    if (name.startsWith('u')) shader.uniforms[name] = uniforms[name];
+  }
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', `#include <common>\n${meshVertexChunk}`)
+    .replace('#include <beginnormal_vertex>', '#include <beginnormal_vertex>\n  objectNormal = spinParticle(objectNormal);')
+    .replace('#include <begin_vertex>', withColor ? meshTransform + meshColor : meshTransform);
+};
+
+/**
+ * Lit material for mesh particles, colored by the theme like the points.
+ */
+export const createMeshMaterial = (uniforms: MeshUniforms): THREE.MeshStandardMaterial => {
+  const material = new THREE.MeshStandardMaterial({ roughness: 0.45, metalness: 0.2 });
+  material.onBeforeCompile = (shader) => {
+    injectMorph(shader, uniforms, true);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vParticleColor;')
+      .replace('#include <color_fragment>', '#include <color_fragment>\n  diffuseColor.rgb *= vParticleColor;');
+  };
+  material.customProgramCacheKey = () => 'particle-mesh';
+  return material;
+};
+
+/**
+ * Shadow depth material placing mesh particles where `createMeshMaterial`
+ * draws them (set as the mesh's `customDepthMaterial`).
+ */
+export const createMeshDepthMaterial = (uniforms: MeshUniforms): THREE.MeshDepthMaterial => {
+  const material = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+  material.onBeforeCompile = (shader) => injectMorph(shader, uniforms, false);
+  material.customProgramCacheKey = () => 'particle-mesh-depth';
+  return material;
+};
@@ -0,0 +1,238 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { sampleImagePositions, sampleTextPositions, sampleTextTarget, generateSpherePositions, blendPositions, smoothStep, loadSvgImage, DEFAULT_TEXT_LAYOUT, FLAT } from './particleUtils';
+import { createRandom } from './random';
+import { createTestImage, MockContext2D } from '../test/canvasMock';
+
+const BOUNDS = { maxWidth: 18, maxHeight: 10 };
+
+const points = (positions: Float32Array) => {
+  const list: [number, number, number][] = [];
+  for (let i = 0; i < positions.length; i += 3) list.push([positions[i], positions[i + 1], positions[i + 2]]);
+  return list;
+};
+
+describe('sampleTextTarget', () => {
+  it('returns one position and edge flag per particle', () => {
+    const target = sampleTextTarget('HELLO', 1234, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(1));
+    expect(target.positions).toHaveLength(1234 * 3);
+    expect(target.edges).toHaveLength(1234);
+    expect(target.colors).toBeNull();
+  });
+
+  it('fits inside the bounds, flat on z = 0', () => {
+    for (const text of ['HI', 'A MUCH LONGER LINE OF TEXT', 'TWO\nLINES']) {
+      const { positions } = sampleTextTarget(text, 2000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(2));
+      for (const [x, y, z] of points(positions)) {
+        expect(Math.abs(x)).toBeLessThanOrEqual(BOUNDS.maxWidth / 2 + 0.1);
+        expect(Math.abs(y)).toBeLessThanOrEqual(BOUNDS.maxHeight / 2 + 0.1);
+        expect(z).toBe(0);
+      }
+    }
+  });
+
+  it('places outline particles before interior ones', () => {
+    const { edges } = sampleTextTarget('O', 800, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(3));
+    const firstInterior = edges!.indexOf(0);
+    expect(edges![0]).toBe(1);
+    expect(firstInterior).toBeGreaterThan(0);
+    expect(edges!.subarray(firstInterior).every((edge) => edge === 0)).toBe(true);
+  });
+
+  it('is deterministic for a seed', () => {
+    const a = sampleTextPositions('SEED', 1500, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(42, 'target'));
+    const b = sampleTextPositions('SEED', 1500, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(42, 'target'));
+    const c = sampleTextPositions('SEED', 1500, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(43, 'target'));
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('returns an empty target for empty or whitespace-only text', () => {
+    for (const text of ['', ' ', '  \n\t ']) {
+      const target = sampleTextTarget(text, 100, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(1));
+      expect(target.positions).toHaveLength(300);
+      expect(target.positions.every((v) => v === 0)).toBe(true);
+      expect(target.edges).toBeNull();
+    }
+  });
+
+  it('reuses sampled points when there are more particles than pixels', () => {
+    const target = sampleTextTarget('.', 20000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(1));
+    expect(target.positions.every(Number.isFinite)).toBe(true);
+    expect(target.edges!.includes(1)).toBe(true);
+  });
+
+  it('handles zero particles', () => {
+    expect(sampleTextPositions('HI', 0, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(1))).toHaveLength(0);
+  });
+
+  it('gives extruded text depth within half the extrusion', () => {
+    const extrusion = { enabled: true, depth: 2, bevel: 0.3 };
+    const { positions } = sampleTextTarget('BOX', 3000, DEFAULT_TEXT_LAYOUT, BOUNDS, extrusion, createRandom(5));
+    const depths = points(positions).map(([, , z]) => z);
+    expect(Math.max(...depths.map(Math.abs))).toBeLessThanOrEqual(1 + 1e-6);
+    expect(new Set(depths).size).toBeGreaterThan(1);
+  });
+
+  it('gives emoji particles their own color and leaves glyphs to the theme', () => {
+    const target = sampleTextTarget('A🙂', 2000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(6));
+    expect(target.colors).toHaveLength(8000);
+    const weights = new Set<number>();
+    for (let i = 0; i < 2000; i++) {
+      const weight = target.colors![i * 4 + 3];
+      weights.add(weight);
+      // The emoji is the right-hand box; plain glyph particles carry no color
+      expect(weight).toBe(target.positions[i * 3] > 0 ? 1 : 0);
+      if (weight === 1) expect(target.colors![i * 4 + 2]).toBeCloseTo(0);
+    }
+    expect(weights).toEqual(new Set([0, 1]));
+  });
+
+  it('lays out right-to-left text from the right', () => {
+    const layout = { ...DEFAULT_TEXT_LAYOUT, align: 'left' as const };
+    const target = sampleTextTarget('שלום 🙂', 2000, layout, BOUNDS, FLAT, createRandom(7));
+    // The emoji ends the line, so it sits on the left
+    for (let i = 0; i < 2000; i++) {
+      if (target.colors![i * 4 + 3] === 1) expect(target.positions[i * 3]).toBeLessThan(0);
+    }
+  });
+
+  it('fits lines in different scripts inside the bounds', () => {
+    for (const text of ['日本語のテキスト', 'مرحبا بالعالم', 'Ég\nqypj', '👩‍👩‍👧‍👦🇯🇵']) {
+      const { positions } = sampleTextTarget(text, 1000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(8));
+      for (const [x, y] of points(positions)) {
+        expect(Math.abs(x)).toBeLessThanOrEqual(BOUNDS.maxWidth / 2 + 0.1);
+        expect(Math.abs(y)).toBeLessThanOrEqual(BOUNDS.maxHeight / 2 + 0.1);
+      }
+    }
+  });
+
+  it('wraps text written without spaces', () => {
+    const layout = { ...DEFAULT_TEXT_LAYOUT, maxWidth: 2 };
+    const wrapped = sampleTextTarget('日本語のテキストです', 1000, layout, BOUNDS, FLAT, createRandom(9)).positions;
+    const single = sampleTextTarget('日本語のテキストです', 1000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(9)).positions;
+    const height = (positions: Float32Array) => {
+      const ys = points(positions).map(([, y]) => y);
+      return Math.max(...ys) - Math.min(...ys);
+    };
+    expect(height(wrapped)).toBeGreaterThan(height(single) * 1.5);
+  });
+
+  it('shrinks the font to keep a tall block of lines on a drawable canvas', () => {
+    const read = vi.spyOn(MockContext2D.prototype, 'getImageData');
+    const target = sampleTextTarget(Array(100).fill('A').join('\n'), 1000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(5));
+    const [, , , canvasHeight] = read.mock.calls[0];
+    read.mockRestore();
+    expect(canvasHeight).toBeLessThanOrEqual(4096 + 60);
+    expect(points(target.positions).some(([x, y]) => x !== 0 || y !== 0)).toBe(true);
+  });
+  it('numbers particles in reading order, line by line', () => {
+    const layout = { ...DEFAULT_TEXT_LAYOUT, align: 'left' as const };
+    const target = sampleTextTarget('AB\nCD', 2000, layout, BOUNDS, FLAT, createRandom(4));
+    const placed = points(target.positions).map(([x, y], i) => ({ x, y, char: Math.floor(target.order![i]) }));
+    const xs = (char: number) => placed.filter((p) => p.char === char).map((p) => p.x);
+    const ys = (chars: number[]) => placed.filter((p) => chars.includes(p.char)).map((p) => p.y);
+
+    // A B, a line break, then C D
+    expect(new Set(placed.map((p) => p.char))).toEqual(new Set([0, 1, 3, 4]));
+    expect(Math.max(...xs(0))).toBeLessThan(Math.min(...xs(1)));
+    expect(Math.max(...xs(3))).toBeLessThan(Math.min(...xs(4)));
+    expect(Math.min(...ys([0, 1]))).toBeGreaterThan(Math.max(...ys([3, 4])));
+  });
+
+  it('reads right-to-left lines from the right', () => {
+    const target = sampleTextTarget('אב', 1000, DEFAULT_TEXT_LAYOUT, BOUNDS, FLAT, createRandom(4));
+    const xs = (char: number) => points(target.positions).filter((_, i) => Math.floor(target.order![i]) === char).map(([x]) => x);
+    expect(Math.max(...xs(1))).toBeLessThan(Math.min(...xs(0)));
+  });
+});
+
+describe('sampleImagePositions', () => {
+  // Opaque red square in the middle of a transparent 40×40 image
+  const image = createTestImage(40, 40, (x, y) => (x >= 10 && x < 30 && y >= 10 && y < 30 ? [255, 0, 0, 255] : [0, 0, 0, 0]));
+  const source = image as unknown as HTMLImageElement;
+
+  it('samples filled pixels with their colors', () => {
+    const target = sampleImagePositions(source, 500, { threshold: 'alpha', invert: false }, BOUNDS, FLAT, createRandom(1));
+    expect(target.positions).toHaveLength(1500);
+    expect(target.colors).toHaveLength(2000);
+    for (let i = 0; i < 500; i++) {
+      expect(target.colors![i * 4]).toBeCloseTo(1);
+      expect(target.colors![i * 4 + 1]).toBeCloseTo(0);
+      expect(target.colors![i * 4 + 3]).toBe(1);
+    }
+  });
+
+  it('keeps the square inside the bounds and centred', () => {
+    const { positions } = sampleImagePositions(source, 500, { threshold: 'alpha', invert: false }, BOUNDS, FLAT, createRandom(1));
+    const xs = points(positions).map(([x]) => x);
+    expect(Math.max(...xs.map(Math.abs))).toBeLessThanOrEqual(BOUNDS.maxHeight / 2);
+    expect(Math.abs(xs.reduce((sum, x) => sum + x, 0) / xs.length)).toBeLessThan(0.5);
+  });
+
+  it('finds nothing in a fully transparent image', () => {
+    const blank = createTestImage(16, 16, () => [255, 255, 255, 0]) as unknown as HTMLImageElement;
+    const target = sampleImagePositions(blank, 50, { threshold: 'luminance', invert: false }, BOUNDS, FLAT, createRandom(1));
+    expect(target.positions.every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe('loadSvgImage', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  // The markup handed to the image (jsdom never loads it, so the promise is left pending)
+  const rewritten = async (markup: string) => {
+    let blob: Blob | null = null;
+    vi.stubGlobal('URL', { createObjectURL: (b: Blob) => { blob = b; return 'blob:svg'; }, revokeObjectURL: () => {} });
+    void loadSvgImage(markup);
+    // jsdom's Blob has no text()
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob!);
+    });
+    const svg = new DOMParser().parseFromString(text, 'image/svg+xml').documentElement;
+    return [svg.getAttribute('width'), svg.getAttribute('height')];
+  };
+
+  it('sizes an SVG from its viewBox', async () => {
+    expect(await rewritten('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100"/>')).toEqual(['600', '300']);
+  });
+
+  it('keeps an explicit dimension and fills in the other by aspect ratio', async () => {
+    expect(await rewritten('<svg xmlns="http://www.w3.org/2000/svg" width="50" viewBox="0 0 200 100"/>')).toEqual(['50', '25']);
+    expect(await rewritten('<svg xmlns="http://www.w3.org/2000/svg" height="40px" viewBox="0 0 200 100"/>')).toEqual(['80', '40px']);
+  });
+
+  it('rejects a malformed viewBox', async () => {
+    await expect(loadSvgImage('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 wide 100"/>')).rejects.toThrow('Invalid SVG viewBox');
+  });
+});
+
+describe('generateSpherePositions', () => {
+  it('puts every point on the radius', () => {
+    for (const [x, y, z] of points(generateSpherePositions(500, 3))) {
+      expect(Math.hypot(x, y, z)).toBeCloseTo(3, 4);
+    }
+  });
+
+  it('handles a single point', () => {
+    const positions = generateSpherePositions(1, 2);
+    expect(positions.every(Number.isFinite)).toBe(true);
+    expect(Math.hypot(positions[0], positions[1], positions[2])).toBeCloseTo(2);
+  });
+});
+
+describe('blend helpers', () => {
+  it('blends buffers linearly', () => {
+    const from = new Float32Array([0, 0, 0, 1, 2, 3]);
+    const to = new Float32Array([2, 4, 6, 1, 2, 3]);
+    expect(Array.from(blendPositions(from, to, 0.5))).toEqual([1, 2, 3, 1, 2, 3]);
+  });
+
+  it('eases from 0 to 1 symmetrically', () => {
+    expect(smoothStep(0)).toBe(0);
+    expect(smoothStep(1)).toBe(1);
+    expect(smoothStep(0.5)).toBe(0.5);
+    expect(smoothStep(0.25) + smoothStep(0.75)).toBeCloseTo(1);
+  });
+});
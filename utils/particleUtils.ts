@@ -1,4 +1,42 @@
 import * as THREE from 'three';
+import { Extrusion, ImageSampleOptions, Random, SampledTarget, TextLayout, WorldBounds } from '../types';
+import { hasColorGlyphs, lineBreakUnits, splitGraphemes, textDirection } from './text';
+
+// Default world-space box that sampled text and images are scaled into
+const DEFAULT_BOUNDS: WorldBounds = { maxWidth: 18, maxHeight: 10 };
+// Longest side images are rasterised at before scanning
+const IMAGE_SAMPLE_SIZE = 600;
+// Widest / tallest canvas text is rasterised on; bigger blocks get a smaller
+// font (browsers refuse canvases past about 32k pixels a side)
+const MAX_TEXT_CANVAS_SIZE = 4096;
+// Summed rgb difference under which a pixel counts as unaffected by the fill style
+const COLOR_GLYPH_TOLERANCE = 24;
+
+export const FLAT: Extrusion = { enabled: false, depth: 0, bevel: 0 };
+
+// The samplers also run in a worker, where there is no document, only OffscreenCanvas
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type SampleImageSource = HTMLImageElement | ImageBitmap;
+
+const createScratchContext = (): Canvas2D | null => {
+  if (typeof document !== 'undefined') {
+    return document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+  }
+  return new OffscreenCanvas(1, 1).getContext('2d', { willReadFrequently: true });
+};
+
+// Font files registered so far, kept so a worker can register them too
+const fontFiles = new Map<string, ArrayBuffer>();
+
+export const DEFAULT_TEXT_LAYOUT: TextLayout = {
+  fontFamily: 'Arial, sans-serif',
+  fontWeight: 900, // 900 weight for boldness
+  italic: false,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  align: 'center',
+  maxWidth: 0,
+};
 
 /**
  * Generates points on a sphere surface using Fibonacci sphere algorithm
@@ -9,7 +47,7 @@ export const generateSpherePositions = (count: number, radius: number): Float32A
   const phi = Math.PI * (3 - Math.sqrt(5)); // Golden angle
 
   for (let i = 0; i < count; i++) {
-    const y = 1 - (i / (count - 1)) * 2; // y goes from 1 to -1
+    const y = count > 1 ? 1 - (i / (count - 1)) * 2 : 0; // y goes from 1 to -1 (one point: the equator)
     const radiusAtY = Math.sqrt(1 - y * y); // radius at y
 
     const theta = phi * i; // golden angle increment
@@ -24,6 +62,22 @@ export const generateSpherePositions = (count: number, radius: number): Float32A
   return positions;
 };
 
+/**
+ * SmoothStep easing used for every morph (mirrored in the particle shader).
+ */
+export const smoothStep = (t: number): number => t * t * (3 - 2 * t);
+
+/**
+ * Linear blend of two position buffers of equal length into a new buffer.
+ */
+export const blendPositions = (from: Float32Array, to: Float32Array, t: number): Float32Array => {
+  const out = new Float32Array(to.length);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = from[i] + (to[i] - from[i]) * t;
+  }
+  return out;
+};
+
 /**
  * Creates a soft glow texture programmatically to avoid external asset dependencies.
  */
@@ -51,73 +105,114 @@ export const createGlowTexture = (): THREE.Texture => {
   return texture;
 };
 
+interface DistributeOptions {
+  coverage: (index: number) => number; // 0-255 fill value for the pixel at byte offset `index`
+  bounds: WorldBounds;
+  colorWeight: ((index: number) => number) | null; // How much a pixel's own color shows (0-1); null = no colors
+  readingOrder: ((x: number, y: number) => number) | null; // Place of a pixel in reading order; null = not text
+  extrusion: Extrusion;
+  random: Random;
+}
+
 /**
- * Samples text from an off-screen canvas to get particle coordinates.
- * Enhanced with edge detection to prioritize outlining the text shape,
- * ensuring legibility even with fewer particles.
+ * Picks a z for one particle of an extruded shape. Edge particles split between
+ * the front outline, the back outline and the side wall; interior particles in
+ * the bevel band sit on the chamfer, the rest fill the body.
  */
-export const sampleTextPositions = (
-  text: string, 
-  particleCount: number
-): Float32Array => {
-  const targetPositions = new Float32Array(particleCount * 3);
-  
-  if (!text || text.trim().length === 0) return targetPositions;
+const extrudedDepth = (isEdge: boolean, edgeDistance: number, halfDepth: number, bevel: number, random: Random): number => {
+  const silhouette = halfDepth - bevel;
 
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d', { willReadFrequently: true });
-  
-  if (!ctx) return targetPositions;
+  if (isEdge) {
+    const role = random();
+    if (role < 0.35) return silhouette;
+    if (role < 0.7) return -silhouette;
+    return (random() * 2 - 1) * silhouette;
+  }
 
-  // 1. Setup Canvas with high resolution
-  // Using a larger font size for better pixel sampling precision
-  const fontSize = 200; 
-  const fontName = 'Arial, sans-serif'; 
-  ctx.font = `900 ${fontSize}px ${fontName}`; // 900 weight for boldness
+  const side = random() < 0.5 ? -1 : 1;
+  if (edgeDistance < bevel) return side * (silhouette + edgeDistance);
+  return (random() * 2 - 1) * halfDepth;
+};
 
-  const measure = ctx.measureText(text);
-  const textWidth = Math.ceil(measure.width);
-  const textHeight = Math.ceil(fontSize * 1.5);
+/**
+ * Chamfer (3-4) distance transform: for every filled pixel, the approximate
+ * distance in pixels to the nearest unfilled one.
+ */
+const distanceToEdge = (filled: (x: number, y: number) => boolean, width: number, height: number): Float32Array => {
+  const dist = new Float32Array(width * height);
+  const far = width + height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      dist[y * width + x] = filled(x, y) ? far : 0;
+    }
+  }
+
+  const relax = (i: number, x: number, y: number, cost: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    const candidate = dist[y * width + x] + cost;
+    if (candidate < dist[i]) dist[i] = candidate;
+  };
+
+  // Forward pass (top-left neighbours), then backward pass (bottom-right)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (dist[i] === 0) continue;
+      relax(i, x - 1, y, 1);
+      relax(i, x, y - 1, 1);
+      relax(i, x - 1, y - 1, 4 / 3);
+      relax(i, x + 1, y - 1, 4 / 3);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (dist[i] === 0) continue;
+      relax(i, x + 1, y, 1);
+      relax(i, x, y + 1, 1);
+      relax(i, x + 1, y + 1, 4 / 3);
+      relax(i, x - 1, y + 1, 4 / 3);
+    }
+  }
+
+  return dist;
+};
+
+/**
+ * Scans rasterised pixels for "filled" ones, flags edges and spreads
+ * `particleCount` particles over them, edges first, scaled to fit the viewport.
+ */
+const distributePixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  particleCount: number,
+  { coverage, bounds, colorWeight, readingOrder, extrusion, random }: DistributeOptions
+): SampledTarget => {
+  const targetPositions = new Float32Array(particleCount * 3);
+  const targetColors = colorWeight ? new Float32Array(particleCount * 4) : null;
+  const targetEdges = new Float32Array(particleCount);
+  const targetOrder = readingOrder ? new Float32Array(particleCount) : null;
 
-  // Pad canvas to handle edges
-  const padding = 30;
-  canvas.width = textWidth + padding * 2;
-  canvas.height = textHeight + padding * 2;
-
-  // Background Black
-  ctx.fillStyle = '#000000';
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-  // Draw Text White
-  ctx.font = `900 ${fontSize}px ${fontName}`;
-  ctx.fillStyle = '#FFFFFF';
-  ctx.textAlign = 'center';
-  ctx.textBaseline = 'middle';
-  ctx.fillText(text, canvas.width / 2, canvas.height / 2);
-
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  const width = canvas.width;
-  const height = canvas.height;
-  
   interface Point { x: number; y: number; isEdge: boolean; }
   const points: Point[] = [];
 
   const threshold = 30; // Sensitive threshold for anti-aliased pixels
 
-  // Helper to check pixel opacity
+  // Helper to check pixel coverage
   const getAlpha = (x: number, y: number) => {
-    return data[((y * width) + x) * 4];
+    return coverage(((y * width) + x) * 4);
   }
 
-  // 2. Scan Pixels with Edge Detection
+  // Scan Pixels with Edge Detection
   // Step 2 is a good balance between performance and detail
   const step = 2; 
   
   for (let y = 2; y < height - 2; y += step) {
     for (let x = 2; x < width - 2; x += step) {
       if (getAlpha(x, y) > threshold) {
-        // It's a text pixel. Check neighbors to find edges.
+        // It's a filled pixel. Check neighbors to find edges.
         // We check neighbors at distance 'step' to align with grid
         const nT = getAlpha(x, y - step);
         const nB = getAlpha(x, y + step);
@@ -132,9 +227,9 @@ export const sampleTextPositions = (
     }
   }
 
-  if (points.length === 0) return targetPositions;
+  if (points.length === 0) return { positions: targetPositions, colors: targetColors, edges: targetEdges, order: targetOrder };
 
-  // 3. Sort & Distribute
+  // Sort & Distribute
   // Edges first ensures the outline is drawn even if we run out of particles.
   const edges = points.filter(p => p.isEdge);
   const interior = points.filter(p => !p.isEdge);
@@ -142,7 +237,7 @@ export const sampleTextPositions = (
   // Custom shuffle for organic distribution
   const shuffle = (arr: Point[]) => {
     for (let i = arr.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = Math.floor(random() * (i + 1));
         [arr[i], arr[j]] = [arr[j], arr[i]];
     }
     return arr;
@@ -151,11 +246,19 @@ export const sampleTextPositions = (
   // Combine: Edges first, then random interior points
   const sortedPoints = [...shuffle(edges), ...shuffle(interior)];
   
-  // Calculate Scale to fit the text into the 3D viewport
-  const targetWorldWidth = 18; 
-  const scale = targetWorldWidth / width;
+  // Calculate Scale to fit the shape into the 3D viewport
+  const scale = Math.min(bounds.maxWidth / width, bounds.maxHeight / height);
   const offsetX = width / 2;
   const offsetY = height / 2;
+  const pixelColor = new THREE.Color();
+
+  // Extrusion: half the solid's thickness at the silhouette and in the body.
+  // The bevel is a 45° chamfer, so thickness grows with distance from the edge.
+  const halfDepth = extrusion.enabled ? extrusion.depth / 2 : 0;
+  const bevel = Math.min(extrusion.bevel, halfDepth);
+  const edgeDistance = extrusion.enabled && bevel > 0
+    ? distanceToEdge((x, y) => getAlpha(x, y) > threshold, width, height)
+    : null;
 
   for (let i = 0; i < particleCount; i++) {
     // Wrap around if we have more particles than sampled points
@@ -163,13 +266,425 @@ export const sampleTextPositions = (
     
     // Apply less jitter on edges to keep them sharp, more on interior to fill volume
     const jitterRange = pt.isEdge ? 0.25 : 2.5; 
-    const jx = (Math.random() - 0.5) * jitterRange;
-    const jy = (Math.random() - 0.5) * jitterRange;
+    const jx = (random() - 0.5) * jitterRange;
+    const jy = (random() - 0.5) * jitterRange;
 
     targetPositions[i * 3] = (pt.x - offsetX + jx) * scale;
     targetPositions[i * 3 + 1] = -(pt.y - offsetY + jy) * scale;
-    targetPositions[i * 3 + 2] = 0;
+    targetPositions[i * 3 + 2] = extrusion.enabled
+      ? extrudedDepth(pt.isEdge, edgeDistance ? edgeDistance[pt.y * width + pt.x] * scale : Infinity, halfDepth, bevel, random)
+      : 0;
+    targetEdges[i] = pt.isEdge ? 1 : 0;
+    if (targetOrder) targetOrder[i] = readingOrder!(pt.x, pt.y);
+
+    if (targetColors) {
+      // Source pixels are sRGB; the shader blends in linear space
+      const idx = ((pt.y * width) + pt.x) * 4;
+      pixelColor.setRGB(data[idx] / 255, data[idx + 1] / 255, data[idx + 2] / 255, THREE.SRGBColorSpace);
+      targetColors[i * 4] = pixelColor.r;
+      targetColors[i * 4 + 1] = pixelColor.g;
+      targetColors[i * 4 + 2] = pixelColor.b;
+      targetColors[i * 4 + 3] = colorWeight!(idx);
+    }
+  }
+
+  return { positions: targetPositions, colors: targetColors, edges: targetEdges, order: targetOrder };
+};
+
+/**
+ * CSS font shorthand for a layout at the given pixel size.
+ */
+export const layoutFont = (layout: TextLayout, fontSize: number): string => {
+  return `${layout.italic ? 'italic ' : ''}${layout.fontWeight} ${fontSize}px ${layout.fontFamily}`;
+};
+
+/**
+ * Resolves once the layout's font is ready to draw on a canvas. Web fonts are
+ * loaded lazily by the browser, so sampling before this renders a fallback.
+ */
+export const loadLayoutFont = async (layout: TextLayout): Promise<void> => {
+  try {
+    await document.fonts.load(layoutFont(layout, 200));
+  } catch {
+    // Unknown or unloadable families just fall back like CSS does
+  }
+};
+
+/**
+ * Registers a user-supplied font file (TTF, OTF, WOFF) and returns the
+ * font-family value to use in a layout.
+ */
+export const registerFontFile = async (file: File): Promise<string> => {
+  const family = file.name.replace(/\.[^.]+$/, '').replace(/["\\]/g, '');
+  const data = await file.arrayBuffer();
+  const face = new FontFace(family, data);
+  await face.load();
+  document.fonts.add(face);
+  fontFiles.set(family, data);
+  return `"${family}", sans-serif`;
+};
+
+/**
+ * Every font file passed to `registerFontFile`, by family name.
+ */
+export const getRegisteredFonts = (): ReadonlyMap<string, ArrayBuffer> => fontFiles;
+
+/**
+ * Splits text into lines on explicit line breaks, then word-wraps each line to
+ * `maxWidth` pixels (0 = no wrapping). Words longer than a line stay whole.
+ */
+const wrapLines = (ctx: Canvas2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    if (maxWidth <= 0) {
+      lines.push(paragraph);
+      continue;
+    }
+
+    let line = '';
+    for (const unit of lineBreakUnits(paragraph)) {
+      const candidate = line ? line + unit : unit.trimStart();
+      if (line && ctx.measureText(candidate.trimEnd()).width > maxWidth) {
+        lines.push(line.trimEnd());
+        line = unit.trimStart();
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line.trimEnd());
   }
 
-  return targetPositions;
-};
\ No newline at end of file
+  return lines;
+};
+
+interface LineBox {
+  text: string;
+  direction: 'ltr' | 'rtl';
+  left: number;    // Ink extent either side of the alignment point
+  right: number;
+  ascent: number;  // ...and above / below the baseline
+  descent: number;
+}
+
+/**
+ * Measures the ink of each line (not the advance width or a nominal em box),
+ * so tall scripts, emoji and descenders fit the canvas.
+ */
+const measureLines = (ctx: Canvas2D, lines: string[], fontSize: number, baseDirection: 'ltr' | 'rtl'): LineBox[] => {
+  return lines.map((text) => {
+    const direction = textDirection(text, baseDirection);
+    ctx.direction = direction;
+    const metrics = ctx.measureText(text);
+    // Engines without ink metrics: the advance width and a typical Latin em box
+    const hasInk = metrics.actualBoundingBoxAscent !== undefined;
+    const anchor = ctx.textAlign === 'center' ? 0.5 : ctx.textAlign === 'right' ? 1 : 0;
+    return {
+      text,
+      direction,
+      left: hasInk ? metrics.actualBoundingBoxLeft : metrics.width * anchor,
+      right: hasInk ? metrics.actualBoundingBoxRight : metrics.width * (1 - anchor),
+      ascent: hasInk ? metrics.actualBoundingBoxAscent : fontSize * 0.8,
+      descent: hasInk ? metrics.actualBoundingBoxDescent : fontSize * 0.25,
+    };
+  });
+};
+
+const blockWidth = (boxes: LineBox[]) => Math.max(0, ...boxes.map((box) => box.left)) + Math.max(0, ...boxes.map((box) => box.right));
+
+// Ink above the first baseline (negative) and below it, with baselines a line height apart
+const blockExtent = (boxes: LineBox[], lineHeight: number) => ({
+  top: Math.min(0, ...boxes.map((box, i) => i * lineHeight - box.ascent)),
+  bottom: Math.max(0, ...boxes.map((box, i) => i * lineHeight + box.descent)),
+});
+
+/**
+ * Maps a canvas pixel of drawn lines to its place in reading order, counted
+ * in characters: the line it belongs to, then the character whose advance
+ * covers it (from the right on right-to-left lines). Each line break counts
+ * as one character. Mixed-direction runs are read in their line's direction.
+ */
+const readingOrderOf = (
+  ctx: Canvas2D,
+  lines: LineBox[],
+  x: number,
+  baseline: number,
+  lineHeight: number,
+  fontSize: number
+): ((px: number, py: number) => number) => {
+  const anchor = ctx.textAlign === 'center' ? 0.5 : ctx.textAlign === 'right' ? 1 : 0;
+  let before = 0;
+  const runs = lines.map((line) => {
+    ctx.direction = line.direction;
+    // Advance at the end of each character, measured on the prefix so kerning counts
+    const stops = [0];
+    let prefix = '';
+    for (const grapheme of splitGraphemes(line.text)) {
+      prefix += grapheme;
+      stops.push(ctx.measureText(prefix).width);
+    }
+    const width = stops[stops.length - 1];
+    const run = { start: x - width * anchor, width, stops, before, rtl: line.direction === 'rtl' };
+    before += stops.length;
+    return run;
+  });
+
+  return (px, py) => {
+    // Glyph bodies sit mostly above their baseline
+    const line = Math.round((py - baseline + fontSize * 0.3) / lineHeight);
+    const run = runs[Math.min(Math.max(line, 0), runs.length - 1)];
+    const { stops } = run;
+    if (stops.length < 2) return run.before;
+
+    const along = Math.min(Math.max(run.rtl ? run.start + run.width - px : px - run.start, 0), run.width);
+    let lo = 0;
+    let hi = stops.length - 2;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (stops[mid] <= along) lo = mid;
+      else hi = mid - 1;
+    }
+    const span = stops[lo + 1] - stops[lo];
+    return run.before + lo + (span > 0 ? Math.min((along - stops[lo]) / span, 1) : 0);
+  };
+};
+
+/**
+ * Samples text from an off-screen canvas to get particle coordinates.
+ * Enhanced with edge detection to prioritize outlining the text shape,
+ * ensuring legibility even with fewer particles.
+ */
+export const sampleTextPositions = (
+  text: string, 
+  particleCount: number,
+  layout: TextLayout = DEFAULT_TEXT_LAYOUT,
+  bounds: WorldBounds = DEFAULT_BOUNDS,
+  extrusion: Extrusion = FLAT,
+  random: Random = Math.random
+): Float32Array => {
+  return sampleTextTarget(text, particleCount, layout, bounds, extrusion, random).positions;
+};
+
+/**
+ * Same as `sampleTextPositions`, also returning which particles sit on the
+ * outline of the glyphs, where each falls in reading order, and for text
+ * with emoji, the emoji's own colors.
+ */
+export const sampleTextTarget = (
+  text: string, 
+  particleCount: number,
+  layout: TextLayout = DEFAULT_TEXT_LAYOUT,
+  bounds: WorldBounds = DEFAULT_BOUNDS,
+  extrusion: Extrusion = FLAT,
+  random: Random = Math.random
+): SampledTarget => {
+  const empty = { positions: new Float32Array(particleCount * 3), colors: null, edges: null, order: null };
+  
+  if (!text || text.trim().length === 0) return empty;
+
+  const ctx = createScratchContext();
+  
+  if (!ctx) return empty;
+  const { canvas } = ctx;
+
+  // 1. Setup Canvas with high resolution
+  // Using a larger font size for better pixel sampling precision
+  let fontSize = 200; 
+  const applyFont = () => {
+    ctx.font = layoutFont(layout, fontSize);
+    ctx.letterSpacing = `${layout.letterSpacing * fontSize}px`;
+    ctx.textAlign = layout.align;
+    ctx.textBaseline = 'alphabetic';
+  };
+  applyFont();
+
+  // Lines without letters of their own follow the text's first strong one
+  const baseDirection = textDirection(text);
+  let lines = measureLines(ctx, wrapLines(ctx, text, layout.maxWidth * fontSize), fontSize, baseDirection);
+  let textWidth = blockWidth(lines);
+  let { top, bottom } = blockExtent(lines, fontSize * layout.lineHeight);
+
+  // Very long lines or many of them: shrink the font rather than allocate a giant canvas
+  const largest = Math.max(textWidth, bottom - top);
+  if (largest > MAX_TEXT_CANVAS_SIZE) {
+    fontSize = Math.max(24, Math.floor(fontSize * MAX_TEXT_CANVAS_SIZE / largest));
+    applyFont();
+    lines = measureLines(ctx, wrapLines(ctx, text, layout.maxWidth * fontSize), fontSize, baseDirection);
+    textWidth = blockWidth(lines);
+    ({ top, bottom } = blockExtent(lines, fontSize * layout.lineHeight));
+  }
+
+  // Baselines are a line height apart; the canvas spans the ink of all lines
+  const lineHeight = fontSize * layout.lineHeight;
+
+  // Pad canvas to handle edges
+  const padding = 30;
+  canvas.width = Math.ceil(textWidth) + padding * 2;
+  canvas.height = Math.ceil(bottom - top) + padding * 2;
+
+  // Every line shares one alignment point, placed so the widest ink fits
+  const x = padding + Math.max(0, ...lines.map((line) => line.left));
+  const baseline = padding - top;
+  const draw = (fillStyle: string) => {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    applyFont(); // Resizing the canvas reset the context state
+    ctx.fillStyle = fillStyle;
+    lines.forEach((line, i) => {
+      ctx.direction = line.direction;
+      ctx.fillText(line.text, x, baseline + i * lineHeight);
+    });
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  };
+
+  // Draw Text White on a transparent canvas, so color glyphs count as filled
+  const data = draw('#FFFFFF');
+
+  // Color glyphs (emoji) ignore the fill style: pixels that come out the same
+  // when drawn in black keep their own color, the rest take the theme's
+  let colorWeight: ((index: number) => number) | null = null;
+  if (hasColorGlyphs(text)) {
+    const dark = draw('#000000');
+    colorWeight = (index) => {
+      const change = Math.abs(data[index] - dark[index]) + Math.abs(data[index + 1] - dark[index + 1]) + Math.abs(data[index + 2] - dark[index + 2]);
+      return change < COLOR_GLYPH_TOLERANCE ? 1 : 0;
+    };
+  }
+
+  // 2. Scan & distribute (alpha channel)
+  return distributePixels(
+    data,
+    canvas.width,
+    canvas.height,
+    particleCount,
+    {
+      coverage: (index) => data[index + 3],
+      bounds,
+      colorWeight,
+      readingOrder: readingOrderOf(ctx, lines, x, baseline, lineHeight, fontSize),
+      extrusion,
+      random,
+    }
+  );
+};
+
+/**
+ * Samples a raster image (or a rasterised SVG) the same way as text, using
+ * luminance or alpha as the fill threshold. Each particle also takes the
+ * color of the pixel it lands on.
+ */
+export const sampleImagePositions = (
+  image: SampleImageSource,
+  particleCount: number,
+  options: ImageSampleOptions,
+  bounds: WorldBounds = DEFAULT_BOUNDS,
+  extrusion: Extrusion = FLAT,
+  random: Random = Math.random
+): SampledTarget => {
+  const empty = { positions: new Float32Array(particleCount * 3), colors: null, edges: null, order: null };
+
+  const naturalWidth = ('naturalWidth' in image && image.naturalWidth) || image.width;
+  const naturalHeight = ('naturalHeight' in image && image.naturalHeight) || image.height;
+  if (!naturalWidth || !naturalHeight) return empty;
+
+  const ctx = createScratchContext();
+  if (!ctx) return empty;
+  const { canvas } = ctx;
+
+  // Normalise resolution so huge photos and tiny icons sample at similar density
+  const fitScale = IMAGE_SAMPLE_SIZE / Math.max(naturalWidth, naturalHeight);
+  const padding = 4;
+  const drawWidth = Math.round(naturalWidth * fitScale);
+  const drawHeight = Math.round(naturalHeight * fitScale);
+  canvas.width = drawWidth + padding * 2;
+  canvas.height = drawHeight + padding * 2;
+
+  // Transparent background so alpha mode sees the real coverage
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, padding, padding, drawWidth, drawHeight);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const coverage = options.threshold === 'alpha'
+    ? (index: number) => data[index + 3]
+    : (index: number) => {
+        const luminance = 0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2];
+        const value = options.invert ? 255 - luminance : luminance;
+        // Transparent pixels are never filled, whatever their stored color
+        return value * (data[index + 3] / 255);
+      };
+
+  return distributePixels(
+    data,
+    canvas.width,
+    canvas.height,
+    particleCount,
+    { coverage, bounds, colorWeight: () => 1, readingOrder: null, extrusion, random }
+  );
+};
+
+/**
+ * Decodes a user-supplied image file (PNG, JPG, SVG...) into an image element.
+ */
+export const loadImageFile = async (file: File): Promise<HTMLImageElement> => {
+  if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+    return loadSvgImage(await file.text());
+  }
+  return loadImageUrl(URL.createObjectURL(file), true);
+};
+
+// An SVG width / height attribute in user units (px), or null if absent or relative
+const svgLength = (value: string | null): number | null => {
+  const match = /^\s*([\d.]+(?:e[+-]?\d+)?)\s*(px)?\s*$/i.exec(value ?? '');
+  const length = match ? Number(match[1]) : NaN;
+  return Number.isFinite(length) && length > 0 ? length : null;
+};
+
+/**
+ * Rasterisable image from raw SVG markup. SVGs missing a width or height get
+ * one, otherwise browsers fall back to a tiny default size: from the other
+ * dimension and the viewBox's aspect ratio, or both sized from the viewBox.
+ */
+export const loadSvgImage = (markup: string): Promise<HTMLImageElement> => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (svg.nodeName.toLowerCase() !== 'svg') {
+    return Promise.reject(new Error('Not valid SVG markup'));
+  }
+
+  const width = svgLength(svg.getAttribute('width'));
+  const height = svgLength(svg.getAttribute('height'));
+  if (width === null || height === null) {
+    const viewBoxAttribute = svg.getAttribute('viewBox');
+    const viewBox = viewBoxAttribute === null ? [0, 0, 1, 1] : viewBoxAttribute.trim().split(/[\s,]+/).map(Number);
+    const [, , vbWidth, vbHeight] = viewBox;
+    if (viewBox.length !== 4 || !viewBox.every(Number.isFinite) || vbWidth <= 0 || vbHeight <= 0) {
+      return Promise.reject(new Error(`Invalid SVG viewBox: "${viewBoxAttribute}"`));
+    }
+
+    const aspect = vbWidth / vbHeight;
+    const scale = IMAGE_SAMPLE_SIZE / Math.max(vbWidth, vbHeight);
+    const size = width !== null ? [width, width / aspect]
+      : height !== null ? [height * aspect, height]
+      : [vbWidth * scale, vbHeight * scale];
+    if (width === null) svg.setAttribute('width', String(Math.max(1, Math.round(size[0]))));
+    if (height === null) svg.setAttribute('height', String(Math.max(1, Math.round(size[1]))));
+  }
+
+  const blob = new Blob([new XMLSerializer().serializeToString(doc)], { type: 'image/svg+xml' });
+  return loadImageUrl(URL.createObjectURL(blob), true);
+};
+
+const loadImageUrl = (url: string, revoke: boolean): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      if (revoke) URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      if (revoke) URL.revokeObjectURL(url);
+      reject(new Error('Could not decode image'));
+    };
+    image.src = url;
+  });
+};
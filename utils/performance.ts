@@ -0,0 +1,69 @@
+import { QualityLevel } from '../types';
+
+/**
+ * Full quality first; the governor steps down the list while frames run long.
+ * Resolution and bloom go before particles: a new particle count resamples
+ * the layouts and snaps them, so it is the last resort.
+ */
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { particleScale: 1, maxDpr: 2, bloomHeight: 300 },
+  { particleScale: 1, maxDpr: 1.5, bloomHeight: 240 },
+  { particleScale: 1, maxDpr: 1.25, bloomHeight: 180 },
+  { particleScale: 1, maxDpr: 1, bloomHeight: 150 },
+  { particleScale: 1, maxDpr: 0.75, bloomHeight: 120 },
+  { particleScale: 0.6, maxDpr: 0.75, bloomHeight: 100 },
+  { particleScale: 0.35, maxDpr: 0.75, bloomHeight: 100 },
+];
+
+// Over budget by this much (e.g. 60 → ~52 fps) counts as slow...
+const SLOW_FACTOR = 1.15;
+// ...for this long before stepping down (seconds)
+const SLOW_FOR = 1.5;
+// Within this of the budget counts as keeping up (vsync hides real headroom)
+const FAST_FACTOR = 1.05;
+// Keeping up this long steps back up; doubles each time that step fails
+const FAST_FOR = 5;
+const MAX_FAST_FOR = 60;
+
+/**
+ * Picks a quality level (index into `QUALITY_LEVELS`) from averaged frame
+ * times. `update` gets the average over the last `interval` seconds and
+ * returns the level to render at.
+ */
+export const createGovernor = (budget: number, levelCount = QUALITY_LEVELS.length) => {
+  let level = 0;
+  let slowFor = 0;
+  let fastFor = 0;
+  let upDelay = FAST_FOR;
+  let sinceStepUp = Infinity;
+
+  return {
+    update: (frameTime: number, interval: number): number => {
+      sinceStepUp += interval;
+      if (frameTime > budget * SLOW_FACTOR) {
+        slowFor += interval;
+        fastFor = 0;
+      } else if (frameTime < budget * FAST_FACTOR) {
+        fastFor += interval;
+        slowFor = 0;
+      } else {
+        slowFor = 0;
+        fastFor = 0;
+      }
+
+      if (slowFor >= SLOW_FOR && level < levelCount - 1) {
+        // Stepping up didn't hold: wait longer before trying again
+        if (sinceStepUp < upDelay * 2) upDelay = Math.min(upDelay * 2, MAX_FAST_FOR);
+        level++;
+        slowFor = 0;
+      } else if (fastFor >= upDelay && level > 0) {
+        level--;
+        fastFor = 0;
+        sinceStepUp = 0;
+      }
+      return level;
+    },
+  };
+};
+
+export type Governor = ReturnType<typeof createGovernor>;
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createSpringState, settleSprings, stepSprings, DEFAULT_PHYSICS, SpringTargets } from './physics';
+
+const COUNT = 4;
+
+// Every particle pulled from the origin toward (1, 2, 3)
+const targets = (): SpringTargets => {
+  const rest = new Float32Array(COUNT * 3);
+  const target = Float32Array.from({ length: COUNT * 3 }, (_, k) => (k % 3) + 1);
+  return { prevRest: rest, rest, prevTarget: target, target, restBlend: 1, restScale: 1, targetBlend: 1, morph: 1, morphs: null };
+};
+
+const released = () => {
+  const state = createSpringState(COUNT);
+  settleSprings(state, { ...targets(), morph: 0 });
+  return state;
+};
+
+describe('stepSprings', () => {
+  it('pulls particles toward their targets', () => {
+    const state = released();
+    stepSprings(state, targets(), DEFAULT_PHYSICS, null, 0.05);
+    expect(state.positions[0]).toBeGreaterThan(0);
+    expect(state.positions[0]).toBeLessThan(1);
+  });
+
+  it('simulates at most a tenth of a second of a long frame gap', () => {
+    const capped = released();
+    const long = released();
+    stepSprings(capped, targets(), DEFAULT_PHYSICS, null, 0.1);
+    stepSprings(long, targets(), DEFAULT_PHYSICS, null, 60);
+    expect(long.positions).toEqual(capped.positions);
+    expect(long.velocities).toEqual(capped.velocities);
+  });
+});
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { PhysicsSettings } from '../types';
+
+export const DEFAULT_PHYSICS: PhysicsSettings = {
+  enabled: false,
+  stiffness: 40,
+  damping: 8, // Under critical (2√k ≈ 12.6) for a little overshoot
+  forceRadius: 2,
+  pointer: 'repel',
+};
+
+// Peak pointer acceleration at the ray, falling off to 0 at the radius
+const POINTER_FORCE = 150;
+// Longest step integrated at once; bigger frame gaps are split
+const MAX_STEP = 1 / 60;
+// Longest frame gap simulated; the rest of a longer one (e.g. a tab coming
+// back from the background) is dropped rather than stalling the page
+const MAX_DELTA = 0.1;
+
+export interface SpringState {
+  positions: Float32Array;
+  velocities: Float32Array;
+}
+
+/**
+ * Where each particle would sit without physics: the same blends the vertex
+ * shader applies (resting shape → target, each from its previous buffer).
+ */
+export interface SpringTargets {
+  prevRest: Float32Array;
+  rest: Float32Array;
+  prevTarget: Float32Array;
+  target: Float32Array;
+  restBlend: number;
+  restScale: number;
+  targetBlend: number;
+  morph: number;
+  morphs: Float32Array | null; // Per particle in staggered morphs, in place of `morph`
+}
+
+export const createSpringState = (count: number): SpringState => ({
+  positions: new Float32Array(count * 3),
+  velocities: new Float32Array(count * 3),
+});
+
+const targetCount = (state: SpringState, t: SpringTargets) => {
+  return Math.min(state.positions.length, t.prevRest.length, t.rest.length, t.prevTarget.length, t.target.length) / 3;
+};
+
+const blendedTarget = (t: SpringTargets, k: number): number => {
+  const restPos = (t.prevRest[k] + (t.rest[k] - t.prevRest[k]) * t.restBlend) * t.restScale;
+  const targetPos = t.prevTarget[k] + (t.target[k] - t.prevTarget[k]) * t.targetBlend;
+  const morph = t.morphs ? t.morphs[(k / 3) | 0] : t.morph;
+  return restPos + (targetPos - restPos) * morph;
+};
+
+/**
+ * Puts every particle at rest on its target, e.g. when the simulation is
+ * switched on, so it starts from what was on screen.
+ */
+export const settleSprings = (state: SpringState, targets: SpringTargets) => {
+  const count = targetCount(state, targets);
+  for (let k = 0; k < count * 3; k++) {
+    state.positions[k] = blendedTarget(targets, k);
+    state.velocities[k] = 0;
+  }
+};
+
+/**
+ * Advances the simulation by `delta` seconds (semi-implicit Euler), at most
+ * MAX_DELTA of them. `ray` is the pointer ray in the particles' local space,
+ * or null for no pointer force.
+ */
+export const stepSprings = (
+  state: SpringState,
+  targets: SpringTargets,
+  settings: PhysicsSettings,
+  ray: THREE.Ray | null,
+  delta: number
+) => {
+  const count = targetCount(state, targets);
+  const { positions: p, velocities: v } = state;
+  const { stiffness, damping, forceRadius } = settings;
+  const sign = settings.pointer === 'attract' ? -1 : 1;
+  const useRay = ray !== null && settings.pointer !== 'off' && forceRadius > 0;
+  const radiusSq = forceRadius * forceRadius;
+
+  const span = Math.min(Math.max(delta, 0), MAX_DELTA);
+  const steps = Math.max(1, Math.ceil(span / MAX_STEP));
+  const dt = span / steps;
+
+  for (let s = 0; s < steps; s++) {
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      let ax = stiffness * (blendedTarget(targets, i3) - p[i3]) - damping * v[i3];
+      let ay = stiffness * (blendedTarget(targets, i3 + 1) - p[i3 + 1]) - damping * v[i3 + 1];
+      let az = stiffness * (blendedTarget(targets, i3 + 2) - p[i3 + 2]) - damping * v[i3 + 2];
+
+      if (useRay) {
+        // Offset from the closest point on the ray, i.e. away from the cursor on screen
+        const ox = p[i3] - ray.origin.x;
+        const oy = p[i3 + 1] - ray.origin.y;
+        const oz = p[i3 + 2] - ray.origin.z;
+        const along = ox * ray.direction.x + oy * ray.direction.y + oz * ray.direction.z;
+        const dx = ox - ray.direction.x * along;
+        const dy = oy - ray.direction.y * along;
+        const dz = oz - ray.direction.z * along;
+        const distSq = dx * dx + dy * dy + dz * dz;
+
+        if (distSq < radiusSq && distSq > 1e-8) {
+          const dist = Math.sqrt(distSq);
+          const falloff = 1 - dist / forceRadius;
+          const strength = (sign * POINTER_FORCE * falloff * falloff) / dist;
+          ax += dx * strength;
+          ay += dy * strength;
+          az += dz * strength;
+        }
+      }
+
+      v[i3] += ax * dt;
+      v[i3 + 1] += ay * dt;
+      v[i3 + 2] += az * dt;
+      p[i3] += v[i3] * dt;
+      p[i3 + 1] += v[i3 + 1] * dt;
+      p[i3 + 2] += v[i3 + 2] * dt;
+    }
+  }
+};
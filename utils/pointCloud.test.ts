@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { parsePly, parseObj, parsePointCloud, parsePointCsv, parsePointJson, samplePointCloud, serializePly, serializePointJson } from './pointCloud';
+import { createRandom } from './random';
+
+const BOUNDS = { maxWidth: 18, maxHeight: 10 };
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('parsePly', () => {
+  it('reads ASCII vertices and 0-255 colors, skipping faces', () => {
+    const cloud = parsePly(encode([
+      'ply',
+      'format ascii 1.0',
+      'element vertex 2',
+      'property float x',
+      'property float y',
+      'property float z',
+      'property uchar red',
+      'property uchar green',
+      'property uchar blue',
+      'element face 1',
+      'property list uchar int vertex_indices',
+      'end_header',
+      '0 1 2 255 0 0',
+      '3 4 5 0 0 0',
+      '3 0 1 2',
+    ].join('\n')));
+    expect(Array.from(cloud.positions)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(Array.from(cloud.colors!)).toEqual([1, 0, 0, 0, 0, 0]);
+  });
+
+  it('reads binary little-endian vertices', () => {
+    const header = encode('ply\nformat binary_little_endian 1.0\nelement vertex 2\nproperty float x\nproperty float y\nproperty double z\nend_header\n');
+    const body = new DataView(new ArrayBuffer(2 * 16));
+    [[1, 2, 3], [-1, -2, -3]].forEach(([x, y, z], i) => {
+      body.setFloat32(i * 16, x, true);
+      body.setFloat32(i * 16 + 4, y, true);
+      body.setFloat64(i * 16 + 8, z, true);
+    });
+    const data = new Uint8Array(header.byteLength + body.byteLength);
+    data.set(new Uint8Array(header));
+    data.set(new Uint8Array(body.buffer), header.byteLength);
+
+    const cloud = parsePly(data.buffer);
+    expect(Array.from(cloud.positions)).toEqual([1, 2, 3, -1, -2, -3]);
+    expect(cloud.colors).toBeNull();
+  });
+
+  it('rejects ASCII files with fewer values than the header declares', () => {
+    const header = 'ply\nformat ascii 1.0\nelement vertex 2\nproperty float x\nproperty float y\nproperty float z\nend_header\n';
+    expect(() => parsePly(encode(`${header}0 1 2\n3 4`))).toThrow('PLY file is truncated');
+    expect(() => parsePly(encode(header))).toThrow('PLY file is truncated');
+  });
+
+  it('rejects files that are not PLY', () => {
+    expect(() => parsePly(encode('hello'))).toThrow('Not a PLY file');
+  });
+});
+
+describe('point lists', () => {
+  it('reads OBJ vertices and ignores everything else', () => {
+    const cloud = parseObj('# cube corner\nv 1 2 3\nvn 0 0 1\nv 4 5 6\nf 1 2 1\n');
+    expect(Array.from(cloud.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('reads JSON arrays and objects', () => {
+    expect(Array.from(parsePointJson('[[1, 2, 3], [4, 5, 6]]').positions)).toEqual([1, 2, 3, 4, 5, 6]);
+    const cloud = parsePointJson('[{"x": 1, "y": 2, "z": 3, "r": 0, "g": 0.5, "b": 1}]');
+    expect(Array.from(cloud.positions)).toEqual([1, 2, 3]);
+    expect(Array.from(cloud.colors!)).toEqual([0, 0.5, 1]);
+  });
+
+  it('reads CSV columns by header name', () => {
+    const cloud = parsePointCsv('z,y,x\n3,2,1\n6,5,4\n');
+    expect(Array.from(cloud.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('picks the parser by extension', () => {
+    expect(() => parsePointCloud('points.txt', encode('1 2 3'))).toThrow();
+    expect(parsePointCloud('POINTS.CSV', encode('1,2,3')).positions).toHaveLength(3);
+  });
+});
+
+describe('samplePointCloud', () => {
+  const cloud = parsePointJson(JSON.stringify(Array.from({ length: 50 }, (_, i) => [i * 10, i % 7, i % 3])));
+
+  it('returns one particle per requested count, inside the bounds', () => {
+    for (const count of [20, 500]) {
+      const { positions } = samplePointCloud(cloud, count, BOUNDS, createRandom(1));
+      expect(positions).toHaveLength(count * 3);
+      for (let i = 0; i < positions.length; i += 3) {
+        expect(Math.abs(positions[i])).toBeLessThanOrEqual(BOUNDS.maxWidth / 2 + 0.05);
+        expect(Math.abs(positions[i + 1])).toBeLessThanOrEqual(BOUNDS.maxHeight / 2 + 0.05);
+      }
+    }
+  });
+
+  it('is reproducible with the same seed', () => {
+    expect(samplePointCloud(cloud, 100, BOUNDS, createRandom(4))).toEqual(samplePointCloud(cloud, 100, BOUNDS, createRandom(4)));
+  });
+});
+
+describe('serializers', () => {
+  const cloud = { positions: Float32Array.from([0.5, -1, 2, 3, 4, 5]), colors: Float32Array.from([1, 0, 0, 0, 1, 0]) };
+
+  it('writes PLY that reads back', () => {
+    const read = parsePly(encode(serializePly(cloud)));
+    expect(read).toEqual(cloud);
+  });
+
+  it('writes JSON that reads back', () => {
+    expect(parsePointJson(serializePointJson(cloud))).toEqual(cloud);
+  });
+});
@@ -0,0 +1,365 @@
+import * as THREE from 'three';
+import { PointCloud, Random, SampledTarget, WorldBounds } from '../types';
+
+/** File extensions `parsePointCloud` reads. */
+export const POINT_CLOUD_EXTENSIONS = ['.ply', '.obj', '.json', '.csv'] as const;
+
+// Repeated points (fewer in the file than particles) are spread this far apart, world units
+const REPEAT_JITTER = 0.03;
+// Decimals kept in exported JSON
+const JSON_PRECISION = 1e4;
+
+type PlyType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+interface PlyProperty {
+  name: string;
+  type: PlyType;
+  countType: PlyType | null; // Set for list properties (e.g. face indices)
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+const PLY_TYPES: Record<string, PlyType> = {
+  char: 'int8', int8: 'int8',
+  uchar: 'uint8', uint8: 'uint8',
+  short: 'int16', int16: 'int16',
+  ushort: 'uint16', uint16: 'uint16',
+  int: 'int32', int32: 'int32',
+  uint: 'uint32', uint32: 'uint32',
+  float: 'float32', float32: 'float32',
+  double: 'float64', float64: 'float64',
+};
+
+const PLY_SIZES: Record<PlyType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+const COLOR_CHANNELS = [['red', 'r', 'diffuse_red'], ['green', 'g', 'diffuse_green'], ['blue', 'b', 'diffuse_blue']];
+
+const plyType = (name: string): PlyType => {
+  const type = PLY_TYPES[name];
+  if (!type) throw new Error(`Unsupported PLY property type: ${name}`);
+  return type;
+};
+
+/**
+ * Collects points, keeping only those with finite coordinates, and colors
+ * when every point has them. Colors run to `colorMax`; without one, they are
+ * taken as 0-255 if any is above 1.
+ */
+const buildCloud = (positions: number[], colors: number[] | null, colorMax?: number): PointCloud => {
+  const count = Math.floor(positions.length / 3);
+  const keptPositions: number[] = [];
+  const keptColors: number[] = [];
+  const hasColors = colors !== null && colors.length === count * 3;
+  const scale = 1 / (colorMax ?? (hasColors && colors.some((value) => value > 1) ? 255 : 1));
+
+  for (let i = 0; i < count; i++) {
+    const point = positions.slice(i * 3, i * 3 + 3);
+    if (!point.every(Number.isFinite)) continue;
+    keptPositions.push(...point);
+    if (hasColors) {
+      keptColors.push(...colors.slice(i * 3, i * 3 + 3).map((value) => Math.min(Math.max((value || 0) * scale, 0), 1)));
+    }
+  }
+
+  if (keptPositions.length === 0) throw new Error('No points found');
+  return {
+    positions: Float32Array.from(keptPositions),
+    colors: hasColors ? Float32Array.from(keptColors) : null,
+  };
+};
+
+const parsePlyHeader = (lines: string[]) => {
+  if (lines[0]?.trim() !== 'ply') throw new Error('Not a PLY file');
+  const elements: PlyElement[] = [];
+  let format = '';
+
+  for (const line of lines.slice(1)) {
+    const [keyword, ...rest] = line.trim().split(/\s+/);
+    if (keyword === 'format') {
+      format = rest[0];
+    } else if (keyword === 'element') {
+      elements.push({ name: rest[0], count: Number(rest[1]), properties: [] });
+    } else if (keyword === 'property') {
+      const element = elements[elements.length - 1];
+      if (!element) throw new Error('PLY property outside an element');
+      element.properties.push(rest[0] === 'list'
+        ? { name: rest[3], type: plyType(rest[2]), countType: plyType(rest[1]) }
+        : { name: rest[1], type: plyType(rest[0]), countType: null });
+    }
+  }
+
+  if (!['ascii', 'binary_little_endian', 'binary_big_endian'].includes(format)) {
+    throw new Error(`Unsupported PLY format: ${format || 'none'}`);
+  }
+  return { format, elements };
+};
+
+/**
+ * Reads the vertices of a PLY file (ASCII or binary), with their colors
+ * when it has red / green / blue properties. Faces and other elements are
+ * skipped.
+ */
+export const parsePly = (data: ArrayBuffer): PointCloud => {
+  const bytes = new Uint8Array(data);
+  // The header is ASCII; search the start of the file for its end
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, Math.min(bytes.length, 65536)));
+  const end = /end_header\r?\n/.exec(head);
+  if (!end) throw new Error('Not a PLY file');
+  const { format, elements } = parsePlyHeader(head.slice(0, end.index).split(/\r?\n/));
+
+  const vertex = elements.find((element) => element.name === 'vertex');
+  if (!vertex) throw new Error('PLY file has no vertices');
+  const axes = ['x', 'y', 'z'].map((axis) => vertex.properties.findIndex((p) => p.name === axis));
+  if (axes.some((index) => index < 0)) throw new Error('PLY vertices have no x, y, z');
+  const channels = COLOR_CHANNELS.map((names) => vertex.properties.findIndex((p) => names.includes(p.name)));
+  const hasColors = channels.every((index) => index >= 0);
+  // Integer channels are 0-255, float ones 0-1
+  const colorMax = hasColors && vertex.properties[channels[0]].type.startsWith('float') ? 1 : 255;
+
+  const positions: number[] = [];
+  const colors: number[] | null = hasColors ? [] : null;
+  const bodyStart = end.index + end[0].length;
+
+  // Reads one value at a time; `read(type)` advances through the body
+  let read: (type: PlyType) => number;
+  if (format === 'ascii') {
+    const body = new TextDecoder().decode(bytes.subarray(bodyStart)).trim();
+    const tokens = body ? body.split(/\s+/) : [];
+    let next = 0;
+    read = () => {
+      if (next >= tokens.length) throw new Error('PLY file is truncated');
+      return Number(tokens[next++]);
+    };
+  } else {
+    const view = new DataView(data, bodyStart);
+    const little = format === 'binary_little_endian';
+    let offset = 0;
+    read = (type) => {
+      if (offset + PLY_SIZES[type] > view.byteLength) throw new Error('PLY file is truncated');
+      const value = type === 'int8' ? view.getInt8(offset)
+        : type === 'uint8' ? view.getUint8(offset)
+        : type === 'int16' ? view.getInt16(offset, little)
+        : type === 'uint16' ? view.getUint16(offset, little)
+        : type === 'int32' ? view.getInt32(offset, little)
+        : type === 'uint32' ? view.getUint32(offset, little)
+        : type === 'float32' ? view.getFloat32(offset, little)
+        : view.getFloat64(offset, little);
+      offset += PLY_SIZES[type];
+      return value;
+    };
+  }
+
+  for (const element of elements) {
+    const isVertex = element === vertex;
+    for (let i = 0; i < element.count; i++) {
+      const values = element.properties.map((property) => {
+        if (property.countType === null) return read(property.type);
+        const length = read(property.countType);
+        for (let k = 0; k < length; k++) read(property.type);
+        return length;
+      });
+      if (!isVertex) continue;
+      positions.push(...axes.map((index) => values[index]));
+      colors?.push(...channels.map((index) => values[index]));
+    }
+    // Nothing after the vertices is needed
+    if (isVertex) break;
+  }
+
+  return buildCloud(positions, colors, colorMax);
+};
+
+/**
+ * Reads the vertices (`v x y z`, optionally followed by r g b) of a Wavefront
+ * OBJ file. Faces, normals and texture coordinates are ignored.
+ */
+export const parseObj = (text: string): PointCloud => {
+  const positions: number[] = [];
+  const colors: number[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/);
+    if (parts[0] !== 'v') continue;
+    const values = parts.slice(1).map(Number);
+    positions.push(values[0], values[1], values[2]);
+    if (values.length >= 6) colors.push(values[3], values[4], values[5]);
+  }
+  return buildCloud(positions, colors.length > 0 ? colors : null);
+};
+
+/**
+ * Reads a JSON point list: `[[x, y, z], ...]` (with r, g, b after the
+ * coordinates for colors), `[{ x, y, z, r?, g?, b? }, ...]`, or flat
+ * `{ positions: [...], colors?: [...] }` arrays as `serializePointJson`
+ * writes them.
+ */
+export const parsePointJson = (text: string): PointCloud => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  if (typeof json === 'object' && json !== null && !Array.isArray(json)) {
+    const record = json as Record<string, unknown>;
+    if (Array.isArray(record.positions)) {
+      return buildCloud(record.positions.map(Number), Array.isArray(record.colors) ? record.colors.map(Number) : null);
+    }
+    if (Array.isArray(record.points)) json = record.points;
+  }
+  if (!Array.isArray(json)) throw new Error('Expected a list of points');
+
+  const positions: number[] = [];
+  const colors: number[] = [];
+  for (const point of json) {
+    const record = typeof point === 'object' && point !== null && !Array.isArray(point) ? point as Record<string, unknown> : null;
+    const values = Array.isArray(point)
+      ? point.map(Number)
+      : ['x', 'y', 'z', ...(record && 'r' in record ? ['r', 'g', 'b'] : [])].map((key) => Number(record?.[key]));
+    positions.push(values[0], values[1], values[2]);
+    if (values.length >= 6) colors.push(values[3], values[4], values[5]);
+  }
+  return buildCloud(positions, colors.length > 0 ? colors : null);
+};
+
+/**
+ * Reads CSV (or tab / semicolon separated) rows of x, y, z and optionally
+ * r, g, b. A header row, if any, names the columns.
+ */
+export const parsePointCsv = (text: string): PointCloud => {
+  const rows = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean).map((line) => line.split(/\s*[,;\t]\s*/));
+  if (rows.length === 0) throw new Error('No points found');
+
+  let columns = [0, 1, 2, 3, 4, 5];
+  if (rows[0].some((cell) => cell !== '' && !Number.isFinite(Number(cell)))) {
+    const header = rows.shift()!.map((cell) => cell.toLowerCase().replace(/["']/g, ''));
+    columns = [['x'], ['y'], ['z'], ...COLOR_CHANNELS].map((names) => header.findIndex((cell) => names.includes(cell)));
+  }
+
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const hasColors = columns.slice(3).every((column) => column >= 0) && rows.every((row) => row.length > columns[5]);
+  for (const row of rows) {
+    positions.push(...columns.slice(0, 3).map((column) => (column >= 0 ? Number(row[column]) : NaN)));
+    if (hasColors) colors.push(...columns.slice(3).map((column) => Number(row[column])));
+  }
+  return buildCloud(positions, hasColors ? colors : null);
+};
+
+export const isPointCloudFile = (name: string): boolean => {
+  const lower = name.toLowerCase();
+  return POINT_CLOUD_EXTENSIONS.some((extension) => lower.endsWith(extension));
+};
+
+/**
+ * Parses a point cloud file by its extension (see POINT_CLOUD_EXTENSIONS).
+ */
+export const parsePointCloud = (name: string, data: ArrayBuffer): PointCloud => {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.ply')) return parsePly(data);
+  const text = new TextDecoder().decode(data);
+  if (lower.endsWith('.obj')) return parseObj(text);
+  if (lower.endsWith('.json')) return parsePointJson(text);
+  if (lower.endsWith('.csv')) return parsePointCsv(text);
+  throw new Error('Drop a PLY, OBJ, JSON or CSV file');
+};
+
+/**
+ * Reads a user-supplied point cloud file.
+ */
+export const loadPointCloudFile = async (file: File): Promise<PointCloud> => {
+  return parsePointCloud(file.name, await file.arrayBuffer());
+};
+
+/**
+ * Resamples a point cloud to `particleCount` particles as a morph target:
+ * a random subset when the cloud has more points, every point (some repeated
+ * with a little jitter) when it has fewer. The cloud is centred and scaled
+ * like sampled text, so its xy extent fits `bounds`; depth is kept in
+ * proportion, within the smaller of the two sides.
+ */
+export const samplePointCloud = (
+  cloud: PointCloud,
+  particleCount: number,
+  bounds: WorldBounds,
+  random: Random = Math.random
+): SampledTarget => {
+  const positions = new Float32Array(particleCount * 3);
+  const count = Math.floor(cloud.positions.length / 3);
+  if (count === 0) return { positions, colors: null, edges: null, order: null };
+
+  const box = new THREE.Box3().setFromArray(cloud.positions);
+  const centre = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  const fits = [bounds.maxWidth / size.x, bounds.maxHeight / size.y, Math.min(bounds.maxWidth, bounds.maxHeight) / size.z];
+  const scale = Math.min(...fits.filter(Number.isFinite), 1e6);
+
+  // Shuffled point order, so a subset covers the whole cloud
+  const order = Uint32Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const colors = cloud.colors ? new Float32Array(particleCount * 4) : null;
+  const color = new THREE.Color();
+  for (let i = 0; i < particleCount; i++) {
+    const point = order[i % count];
+    const jitter = i < count ? 0 : REPEAT_JITTER;
+    positions[i * 3] = (cloud.positions[point * 3] - centre.x) * scale + (random() - 0.5) * jitter;
+    positions[i * 3 + 1] = (cloud.positions[point * 3 + 1] - centre.y) * scale + (random() - 0.5) * jitter;
+    positions[i * 3 + 2] = (cloud.positions[point * 3 + 2] - centre.z) * scale + (random() - 0.5) * jitter;
+
+    if (colors && cloud.colors) {
+      // File colors are sRGB; the shader blends in linear space
+      color.setRGB(cloud.colors[point * 3], cloud.colors[point * 3 + 1], cloud.colors[point * 3 + 2], THREE.SRGBColorSpace);
+      colors.set([color.r, color.g, color.b, 1], i * 4);
+    }
+  }
+
+  return { positions, colors, edges: null, order: null };
+};
+
+/**
+ * ASCII PLY with a vertex per point, and 0-255 red / green / blue when the
+ * cloud has colors.
+ */
+export const serializePly = (cloud: PointCloud): string => {
+  const count = Math.floor(cloud.positions.length / 3);
+  const header = [
+    'ply',
+    'format ascii 1.0',
+    'comment particle-morph snapshot',
+    `element vertex ${count}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(cloud.colors ? ['property uchar red', 'property uchar green', 'property uchar blue'] : []),
+    'end_header',
+  ];
+  const lines = new Array<string>(count);
+  for (let i = 0; i < count; i++) {
+    const position = Array.from(cloud.positions.subarray(i * 3, i * 3 + 3), (v) => Number(v.toFixed(5)));
+    const color = cloud.colors ? Array.from(cloud.colors.subarray(i * 3, i * 3 + 3), (v) => Math.round(v * 255)) : [];
+    lines[i] = [...position, ...color].join(' ');
+  }
+  return `${header.join('\n')}\n${lines.join('\n')}\n`;
+};
+
+/**
+ * JSON with flat `positions` and (0-1) `colors` arrays, as `parsePointJson`
+ * reads them back.
+ */
+export const serializePointJson = (cloud: PointCloud): string => {
+  const round = (values: Float32Array) => Array.from(values, (v) => Math.round(v * JSON_PRECISION) / JSON_PRECISION);
+  return JSON.stringify({
+    positions: round(cloud.positions),
+    ...(cloud.colors ? { colors: round(cloud.colors) } : {}),
+  });
+};
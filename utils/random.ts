@@ -0,0 +1,35 @@
+import { Random } from '../types';
+
+// 32-bit integer hash (from "Hash Functions for GPU Rendering", Jarzynski & Olano)
+const mix = (value: number): number => {
+  let h = Math.imul(value ^ (value >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+const hashString = (text: string): number => {
+  let h = 0x811c9dc5; // FNV-1a
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+/**
+ * Seeded drop-in for Math.random (mulberry32). `stream` names what the numbers
+ * are for, so e.g. the resting shape and the target sampler draw independent
+ * sequences from the same seed and each stays stable when the other changes.
+ */
+export const createRandom = (seed: number, stream = ''): Random => {
+  let state = mix((seed >>> 0) ^ hashString(stream));
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * A fresh seed for the "randomize" button: a positive 32-bit integer.
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) + 1;
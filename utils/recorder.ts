@@ -0,0 +1,237 @@
+import { RootState } from '@react-three/fiber';
+import { ExportFormat, ExportOptions, FrameClock } from '../types';
+import { createGifEncoder } from './gifEncoder';
+import { writeWebm, WebmChunk } from './webmWriter';
+import { writeZip, ZipEntry } from './zipWriter';
+
+// Force a keyframe this often so WebM files stay seekable
+const KEYFRAME_INTERVAL = 2; // seconds
+const VIDEO_BITRATE = 12_000_000;
+// PNG and GIF frames are all held until the file is written, so those
+// exports are capped by total output pixels (about 8 s of 1080p at 60 fps)
+const MAX_BUFFERED_PIXELS = 1e9;
+
+/**
+ * Receives each rendered frame (already copied to a 2D canvas at the output
+ * size) and produces the finished file.
+ */
+interface FrameSink {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  webm: 'webm',
+  gif: 'gif',
+  png: 'zip',
+};
+
+/**
+ * Longest export, in seconds, a format can take at a size and frame rate:
+ * unlimited for compressed WebM, limited by memory for PNG and GIF.
+ */
+export const maxExportDuration = (format: ExportFormat, width: number, height: number, fps: number): number => {
+  return format === 'webm' ? Infinity : MAX_BUFFERED_PIXELS / (width * height * fps);
+};
+
+const waitForFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+const createGifSink = ({ width, height, fps }: ExportOptions): FrameSink => {
+  const encoder = createGifEncoder(width, height, fps);
+  return {
+    addFrame: async (canvas) => {
+      encoder.addFrame(canvas.getContext('2d')!.getImageData(0, 0, width, height));
+    },
+    finish: async () => encoder.finish(),
+    cancel: () => {},
+  };
+};
+
+const createPngSink = (): FrameSink => {
+  const entries: ZipEntry[] = [];
+  return {
+    addFrame: async (canvas, index) => {
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not encode PNG frame');
+      entries.push({ name: `frame_${String(index).padStart(5, '0')}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+    },
+    finish: async () => writeZip(entries),
+    cancel: () => { entries.length = 0; },
+  };
+};
+
+const VIDEO_CODECS = [
+  { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+  { codec: 'vp8', codecId: 'V_VP8' },
+];
+
+/**
+ * WebCodecs encoder with explicit timestamps, so playback speed matches the
+ * fixed timestep no matter how long each frame took to render.
+ */
+const createWebCodecsSink = async ({ width, height, fps }: ExportOptions): Promise<FrameSink | null> => {
+  for (const { codec, codecId } of VIDEO_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate: VIDEO_BITRATE, framerate: fps };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (!support?.supported) continue;
+
+    const chunks: WebmChunk[] = [];
+    let failure: Error | null = null;
+    const encoder = new VideoEncoder({
+      output: (chunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        chunks.push({ data, timestamp: chunk.timestamp, isKey: chunk.type === 'key' });
+      },
+      error: (err) => { failure = err; },
+    });
+    encoder.configure(config);
+
+    const keyframeEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL));
+    return {
+      addFrame: async (canvas, index) => {
+        if (failure) throw failure;
+        const frame = new VideoFrame(canvas, { timestamp: Math.round((index * 1_000_000) / fps), duration: Math.round(1_000_000 / fps) });
+        encoder.encode(frame, { keyFrame: index % keyframeEvery === 0 });
+        frame.close();
+        // Don't let a slow encoder queue up every frame in memory
+        while (encoder.encodeQueueSize > 4) await new Promise((resolve) => setTimeout(resolve, 5));
+      },
+      finish: async () => {
+        await encoder.flush();
+        encoder.close();
+        if (failure) throw failure;
+        return writeWebm(chunks, { codecId, width, height }, chunks.length / fps);
+      },
+      cancel: () => { if (encoder.state !== 'closed') encoder.close(); },
+    };
+  }
+  return null;
+};
+
+/**
+ * MediaRecorder fallback for browsers without WebCodecs. The recorder stamps
+ * frames with wall-clock time, so frames are handed over at the target rate.
+ */
+const createMediaRecorderSink = ({ fps }: ExportOptions, canvas: HTMLCanvasElement): FrameSink => {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+  const data: Blob[] = [];
+  recorder.ondataavailable = (e) => data.push(e.data);
+  recorder.start();
+
+  let nextFrameAt = performance.now();
+  return {
+    addFrame: async () => {
+      const wait = nextFrameAt - performance.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      track.requestFrame();
+      nextFrameAt = Math.max(nextFrameAt, performance.now()) + 1000 / fps;
+    },
+    finish: () => new Promise((resolve) => {
+      recorder.onstop = () => resolve(new Blob(data, { type: 'video/webm' }));
+      recorder.stop();
+    }),
+    cancel: () => { if (recorder.state !== 'inactive') recorder.stop(); },
+  };
+};
+
+const createSink = async (options: ExportOptions, canvas: HTMLCanvasElement): Promise<FrameSink> => {
+  switch (options.format) {
+    case 'gif':
+      return createGifSink(options);
+    case 'png':
+      return createPngSink();
+    case 'webm': {
+      const sink = typeof VideoEncoder !== 'undefined' ? await createWebCodecsSink(options) : null;
+      return sink ?? createMediaRecorderSink(options, canvas);
+    }
+  }
+};
+
+interface RecordHooks {
+  /** Runs before each frame renders, e.g. to step a sequence with the same clock */
+  beforeFrame?: (delta: number) => void;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Renders `options.duration` seconds of the scene frame by frame and encodes
+ * them. R3F's loop is suspended and the renderer resized to the output size
+ * meanwhile; `clock` (which the scene must be reading) advances by
+ * exactly 1 / fps per frame. Each frame goes through `advance`, so the
+ * post-processing composer renders it just like a live frame.
+ */
+export const recordFrames = async (
+  getState: () => RootState,
+  options: ExportOptions,
+  clock: FrameClock,
+  { beforeFrame, onProgress, signal }: RecordHooks = {}
+): Promise<Blob> => {
+  const { width, height, fps, duration } = options;
+  const maxDuration = maxExportDuration(options.format, width, height, fps);
+  if (duration > maxDuration) {
+    throw new Error(`${options.format.toUpperCase()} exports at ${width}×${height}, ${fps} fps are limited to ${Math.floor(maxDuration * 10) / 10} s`);
+  }
+  const initial = getState();
+  const { size, frameloop } = initial;
+  const dpr = initial.viewport.dpr;
+
+  // Frames are copied out right after rendering, while the drawing buffer is intact
+  const capture = document.createElement('canvas');
+  capture.width = width;
+  capture.height = height;
+  const context = capture.getContext('2d')!;
+
+  const sink = await createSink(options, capture);
+  const step = 1 / fps;
+  const total = Math.max(1, Math.round(duration * fps));
+
+  // Canvas re-applies its own pixel ratio on every render, so size the CSS
+  // box such that the drawing buffer comes out at the output resolution
+  initial.setFrameloop('never');
+  initial.setSize(width / dpr, height / dpr);
+
+  try {
+    // Let React and the scene settle at the new size before the first frame
+    await waitForFrame();
+    await waitForFrame();
+
+    for (let i = 0; i < total; i++) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+
+      clock.delta = i === 0 ? 0 : step;
+      clock.elapsed = i * step;
+      beforeFrame?.(clock.delta);
+
+      const state = getState();
+      state.advance(clock.elapsed);
+      context.drawImage(state.gl.domElement, 0, 0, width, height);
+      await sink.addFrame(capture, i);
+      onProgress?.((i + 1) / total);
+    }
+
+    return await sink.finish();
+  } catch (err) {
+    sink.cancel();
+    throw err;
+  } finally {
+    const state = getState();
+    state.setSize(size.width, size.height, size.top, size.left);
+    state.setFrameloop(frameloop);
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
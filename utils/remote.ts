@@ -0,0 +1,168 @@
+import { RemoteCommand, RemoteMessage, RemoteState, RemoteStatus } from '../types';
+import { MIN_PARTICLES, MAX_PARTICLES } from './sceneConfig';
+import { limitGraphemes } from './text';
+
+export const REMOTE_CHANNEL = 'particle-morph:remote';
+export const DEFAULT_RELAY_PORT = 8787;
+
+// Reconnect delay doubles from the first to the last
+const RECONNECT_MIN = 1000; // ms
+const RECONNECT_MAX = 15000;
+
+// WebSocket close code the relay uses for a bad token
+const POLICY_VIOLATION = 1008;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const isColor = (value: unknown): value is string => {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+};
+
+const parseCommand = (json: unknown): RemoteCommand | null => {
+  if (!isRecord(json)) return null;
+  switch (json.type) {
+    case 'morph':
+      if (json.text === undefined) return { type: 'morph' };
+      return typeof json.text === 'string' ? { type: 'morph', text: limitGraphemes(json.text) } : null;
+    case 'reset':
+      return { type: 'reset' };
+    case 'pause':
+      return typeof json.paused === 'boolean' ? { type: 'pause', paused: json.paused } : null;
+    case 'color':
+      if (!isColor(json.color)) return null;
+      return isColor(json.secondaryColor)
+        ? { type: 'color', color: json.color, secondaryColor: json.secondaryColor }
+        : { type: 'color', color: json.color };
+    case 'particleCount':
+      if (typeof json.count !== 'number' || !Number.isFinite(json.count)) return null;
+      return { type: 'particleCount', count: Math.round(Math.min(Math.max(json.count, MIN_PARTICLES), MAX_PARTICLES)) };
+    case 'sequence':
+      return json.action === 'play' || json.action === 'stop' ? { type: 'sequence', action: json.action } : null;
+    default:
+      return null;
+  }
+};
+
+const parseState = (json: unknown): RemoteState | null => {
+  if (!isRecord(json) || !isRecord(json.sequence)) return null;
+  const { text, isMorphing, isPaused, color, particleCount, sequence } = json;
+  if (typeof text !== 'string' || typeof isMorphing !== 'boolean' || typeof isPaused !== 'boolean') return null;
+  if (!isColor(color) || typeof particleCount !== 'number') return null;
+  if (typeof sequence.name !== 'string' || typeof sequence.playing !== 'boolean') return null;
+  return { text, isMorphing, isPaused, color, particleCount, sequence: { name: sequence.name, playing: sequence.playing } };
+};
+
+/**
+ * Validates a message from the channel; anything malformed (or from a newer
+ * protocol) is null and should be ignored.
+ */
+export const parseRemoteMessage = (json: unknown): RemoteMessage | null => {
+  if (!isRecord(json)) return null;
+  if (json.kind === 'hello') return { kind: 'hello' };
+  if (json.kind === 'command') {
+    const command = parseCommand(json.command);
+    return command ? { kind: 'command', command } : null;
+  }
+  if (json.kind === 'state') {
+    const state = parseState(json.state);
+    return state ? { kind: 'state', state } : null;
+  }
+  return null;
+};
+
+export interface RemoteConnection {
+  send: (message: RemoteMessage) => void;
+  close: () => void;
+}
+
+export interface RemoteOptions {
+  url: string | null; // WebSocket relay; null = tabs of this browser only (BroadcastChannel)
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus) => void;
+  onOpen?: () => void; // After every (re)connect
+}
+
+/**
+ * Opens the control channel: a WebSocket to the relay when a URL is given
+ * (reconnecting with backoff until closed), otherwise a BroadcastChannel.
+ */
+export const createRemoteConnection = ({ url, onMessage, onStatus, onOpen }: RemoteOptions): RemoteConnection => {
+  const receive = (data: unknown) => {
+    const message = parseRemoteMessage(data);
+    if (message) onMessage(message);
+  };
+
+  if (!url) {
+    if (typeof BroadcastChannel === 'undefined') {
+      onStatus('closed');
+      return { send: () => {}, close: () => {} };
+    }
+    const channel = new BroadcastChannel(REMOTE_CHANNEL);
+    channel.onmessage = (event) => receive(event.data);
+    onStatus('open');
+    // Once the caller holds the connection, as with a socket's open event
+    queueMicrotask(() => onOpen?.());
+    return {
+      send: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let timer = 0;
+  let closed = false;
+
+  const connect = () => {
+    onStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch {
+      onStatus('closed'); // Malformed URL: retrying won't help
+      return;
+    }
+    socket.onopen = () => {
+      attempts = 0;
+      onStatus('open');
+      onOpen?.();
+    };
+    socket.onmessage = (event) => {
+      try {
+        receive(JSON.parse(event.data));
+      } catch {
+        // Not JSON: not ours
+      }
+    };
+    socket.onclose = (event) => {
+      socket = null;
+      if (closed) return;
+      onStatus('closed');
+      if (event.code === POLICY_VIOLATION) return; // Relay turned us away (token): retrying won't help
+      timer = window.setTimeout(connect, Math.min(RECONNECT_MIN * 2 ** attempts, RECONNECT_MAX));
+      attempts++;
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(timer);
+      socket?.close();
+    },
+  };
+};
+
+/**
+ * Relay URL from the page's `?remote=` parameter (e.g.
+ * `?remote=ws://192.168.1.20:8787`), or null for same-browser control.
+ */
+export const remoteUrlFromLocation = (): string | null => {
+  return new URLSearchParams(window.location.search).get('remote') || null;
+};
@@ -0,0 +1,79 @@
+import { AssignmentStrategy, Extrusion, ImageSampleOptions, MorphFrame, SampledTarget, TextLayout, WorldBounds } from '../types';
+import { assignFrame } from './assignment';
+import { createRandom } from './random';
+import { sampleImagePositions, sampleTextTarget } from './particleUtils';
+
+// Sampling and assignment requests and the messages carrying them to the sampler worker,
+// kept out of sampler.ts so the worker doesn't bundle the client that spawns it
+
+interface SampleSettings {
+  bounds: WorldBounds;
+  extrusion: Extrusion;
+  count: number;
+  seed: number;
+}
+
+export type SampleRequest =
+  | ({ kind: 'text'; text: string; layout: TextLayout } & SampleSettings)
+  | ({ kind: 'image'; image: HTMLImageElement; options: ImageSampleOptions } & SampleSettings);
+
+// What crosses to the worker: images go as (transferred) bitmaps
+export type WorkerSampleRequest =
+  | Extract<SampleRequest, { kind: 'text' }>
+  | ({ kind: 'image'; image: ImageBitmap; options: ImageSampleOptions } & SampleSettings);
+
+// Pairs a sampled target with the particles currently at `from`
+export interface AssignRequest {
+  from: Float32Array;
+  target: SampledTarget;
+  strategy: AssignmentStrategy;
+  seed: number;
+  salt: string;
+}
+
+export type SamplerMessage =
+  | { type: 'font'; family: string; data: ArrayBuffer }
+  | { type: 'sample'; id: number; request: WorkerSampleRequest }
+  | { type: 'assign'; id: number; request: AssignRequest };
+
+export type SamplerResponse =
+  | { id: number; target: SampledTarget }
+  | { id: number; frame: MorphFrame }
+  | { id: number; error: string };
+
+/**
+ * Runs one request where it is called. The worker uses this too, so both
+ * paths produce identical layouts for the same seed.
+ */
+export const runSampleRequest = (request: SampleRequest | WorkerSampleRequest): SampledTarget => {
+  const random = createRandom(request.seed, 'target');
+  if (request.kind === 'text') {
+    return sampleTextTarget(request.text, request.count, request.layout, request.bounds, request.extrusion, random);
+  }
+  return sampleImagePositions(request.image, request.count, request.options, request.bounds, request.extrusion, random);
+};
+
+/**
+ * Runs one assignment where it is called, seeded like the worker's.
+ */
+export const runAssignRequest = (request: AssignRequest): MorphFrame => {
+  return assignFrame(request.from, request.target, request.strategy, createRandom(request.seed, request.salt));
+};
+
+/**
+ * The buffers of a result, for transferring it instead of copying.
+ */
+export const targetBuffers = (target: SampledTarget): ArrayBuffer[] => {
+  return [target.positions, target.colors, target.edges, target.order]
+    .filter((array): array is Float32Array => array !== null)
+    .map((array) => array.buffer as ArrayBuffer);
+};
+
+/**
+ * The buffers of an assigned frame, for transferring it back.
+ */
+export const frameBuffers = (frame: MorphFrame): ArrayBuffer[] => {
+  return [frame.positions, frame.colors, frame.edges, frame.order]
+    .filter((array): array is Float32Array => array !== undefined)
+    .map((array) => array.buffer as ArrayBuffer);
+};
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createSampler } from './sampler';
+import { SampleRequest } from './sampleRequest';
+import { DEFAULT_TEXT_LAYOUT, FLAT } from './particleUtils';
+
+const request = (fontFamily: string): SampleRequest => ({
+  kind: 'text',
+  text: 'HI',
+  layout: { ...DEFAULT_TEXT_LAYOUT, fontFamily },
+  bounds: { maxWidth: 18, maxHeight: 10 },
+  extrusion: FLAT,
+  count: 200,
+  seed: 1,
+});
+
+// A page that loaded "Brand" through @font-face; `loaded` says whether it has arrived
+const stubPageFonts = (loaded: { current: boolean }) => {
+  const faces = [{ family: '"Brand"' }];
+  Object.defineProperty(document, 'fonts', {
+    configurable: true,
+    value: {
+      forEach: (callback: (face: { family: string }) => void) => faces.forEach(callback),
+      load: async () => [],
+      check: () => loaded.current,
+    },
+  });
+};
+
+afterEach(() => {
+  delete (document as { fonts?: FontFaceSet }).fonts;
+});
+
+describe('createSampler', () => {
+  it('caches text in a page font only once the font has loaded', async () => {
+    const loaded = { current: false };
+    stubPageFonts(loaded);
+    const sampler = createSampler();
+
+    const fallback = sampler.sample(request('"Brand", sans-serif'));
+    await fallback;
+    expect(sampler.sample(request('"Brand", sans-serif'))).not.toBe(fallback);
+
+    loaded.current = true;
+    const drawn = sampler.sample(request('"Brand", sans-serif'));
+    await drawn;
+    expect(sampler.sample(request('"Brand", sans-serif'))).toBe(drawn);
+    sampler.dispose();
+  });
+
+  it('caches text in system fonts straight away', () => {
+    stubPageFonts({ current: false });
+    const sampler = createSampler();
+    const first = sampler.sample(request('Arial, sans-serif'));
+    expect(sampler.sample(request('Arial, sans-serif'))).toBe(first);
+    sampler.dispose();
+  });
+});
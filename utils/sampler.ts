@@ -0,0 +1,200 @@
+import { MorphFrame, SampledTarget } from '../types';
+import { createLruCache } from './lru';
+import { getRegisteredFonts, layoutFont, loadLayoutFont } from './particleUtils';
+import { AssignRequest, runAssignRequest, runSampleRequest, SampleRequest, SamplerMessage, SamplerResponse, WorkerSampleRequest } from './sampleRequest';
+
+// Sampled layouts kept for reuse; at 100k particles each is ~1.6 MB
+const CACHE_SIZE = 24;
+
+// Images are cached by identity
+const imageIds = new WeakMap<HTMLImageElement, number>();
+let nextImageId = 0;
+
+const requestKey = (request: SampleRequest): string => {
+  if (request.kind === 'text') return JSON.stringify(request);
+  if (!imageIds.has(request.image)) imageIds.set(request.image, nextImageId++);
+  return JSON.stringify({ ...request, image: imageIds.get(request.image) });
+};
+
+const unquote = (family: string) => family.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+/**
+ * Whether a text request names a font the page loaded itself (CSS
+ * `@font-face` or `document.fonts.add`) rather than through
+ * `registerFontFile`. Workers can't see those fonts, so such text is
+ * sampled on the main thread.
+ */
+const usesPageFont = (request: SampleRequest): boolean => {
+  if (request.kind !== 'text' || typeof document === 'undefined' || !document.fonts) return false;
+  const registered = getRegisteredFonts();
+  const families = request.layout.fontFamily.split(',').map(unquote).filter((family) => !registered.has(family));
+  if (families.length === 0) return false;
+
+  const pageFamilies = new Set<string>();
+  document.fonts.forEach((face) => pageFamilies.add(unquote(face.family)));
+  return families.some((family) => pageFamilies.has(family));
+};
+
+// Whether the layout's font can be drawn yet (not a fallback)
+const isFontReady = (request: Extract<SampleRequest, { kind: 'text' }>): boolean => {
+  try {
+    return document.fonts.check(layoutFont(request.layout, 200));
+  } catch {
+    return true;
+  }
+};
+
+const canUseWorker = () => {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+};
+
+type WorkerResult = SampledTarget | MorphFrame;
+
+// A request the worker is running, and how to run it here instead
+interface WorkerJob {
+  fallback: () => Promise<WorkerResult>;
+  resolve: (result: WorkerResult) => void;
+  reject: (err: Error) => void;
+}
+
+export interface Sampler {
+  sample: (request: SampleRequest) => Promise<SampledTarget>;
+  // Not cached: `from` changes with every call
+  assign: (request: AssignRequest) => Promise<MorphFrame>;
+  dispose: () => void;
+}
+
+/**
+ * Samples text and images on a worker (falling back to the main thread where
+ * workers can't draw, and for text in the page's own web fonts), caching
+ * results in an LRU. Results are shared between
+ * callers and must not be modified. Assignments run on the same worker.
+ */
+export const createSampler = (): Sampler => {
+  const cache = createLruCache<string, Promise<SampledTarget>>(CACHE_SIZE);
+  const pending = new Map<number, WorkerJob>();
+  const sentFonts = new Set<string>();
+  let worker: Worker | null = null;
+  let workerFailed = !canUseWorker();
+  let nextId = 0;
+
+  const runLocally = (request: SampleRequest) => {
+    return new Promise<SampledTarget>((resolve) => resolve(runSampleRequest(request)));
+  };
+
+  // Page fonts load lazily; a layout drawn before its font arrives uses a
+  // fallback and is left out of the cache so the next request redraws it
+  const runWithPageFont = async (request: Extract<SampleRequest, { kind: 'text' }>, key: string) => {
+    await loadLayoutFont(request.layout);
+    const ready = isFontReady(request);
+    const target = runSampleRequest(request);
+    if (!ready) cache.delete(key);
+    return target;
+  };
+
+  // A worker that fails to load hands everything back to the main thread
+  const abandonWorker = () => {
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pending.forEach(({ fallback, resolve, reject }) => fallback().then(resolve, reject));
+    pending.clear();
+  };
+
+  const getWorker = () => {
+    if (!worker && !workerFailed) {
+      try {
+        worker = new Worker(new URL('./sampler.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<SamplerResponse>) => {
+          const response = event.data;
+          const job = pending.get(response.id);
+          if (!job) return;
+          pending.delete(response.id);
+          if ('error' in response) job.reject(new Error(response.error));
+          else job.resolve('target' in response ? response.target : response.frame);
+        };
+        worker.onerror = abandonWorker;
+      } catch {
+        workerFailed = true;
+      }
+    }
+    return worker;
+  };
+
+  const runOnWorker = async (request: SampleRequest): Promise<SampledTarget> => {
+    let workerRequest: WorkerSampleRequest;
+    if (request.kind === 'image') {
+      try {
+        workerRequest = { ...request, image: await createImageBitmap(request.image) };
+      } catch {
+        // Some browsers can't make bitmaps of SVG images
+        return runLocally(request);
+      }
+    } else {
+      workerRequest = request;
+    }
+
+    const target = getWorker();
+    if (!target) return runLocally(request);
+
+    getRegisteredFonts().forEach((data, family) => {
+      if (sentFonts.has(family)) return;
+      sentFonts.add(family);
+      target.postMessage({ type: 'font', family, data } satisfies SamplerMessage);
+    });
+
+    const id = nextId++;
+    const transfer = workerRequest.kind === 'image' ? [workerRequest.image] : [];
+    return post(target, { type: 'sample', id, request: workerRequest }, transfer, () => runLocally(request));
+  };
+
+  const post = <T extends WorkerResult>(target: Worker, message: Extract<SamplerMessage, { id: number }>, transfer: Transferable[], fallback: () => Promise<T>) => {
+    return new Promise<T>((resolve, reject) => {
+      pending.set(message.id, { fallback, resolve: resolve as (result: WorkerResult) => void, reject });
+      target.postMessage(message, transfer);
+    });
+  };
+
+  const assignLocally = (request: AssignRequest) => {
+    return new Promise<MorphFrame>((resolve) => resolve(runAssignRequest(request)));
+  };
+
+  return {
+    sample: (request) => {
+      const key = requestKey(request);
+      const cached = cache.get(key);
+      if (cached) return cached;
+
+      const result = request.kind === 'text' && usesPageFont(request) ? runWithPageFont(request, key)
+        : workerFailed ? runLocally(request)
+        : runOnWorker(request);
+      cache.set(key, result);
+      result.catch(() => cache.delete(key));
+      return result;
+    },
+    assign: (request) => {
+      const target = getWorker();
+      if (!target) return assignLocally(request);
+      return post(target, { type: 'assign', id: nextId++, request }, [], () => assignLocally(request));
+    },
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(({ reject }) => reject(new Error('Sampler disposed')));
+      pending.clear();
+      cache.clear();
+    },
+  };
+};
+
+let shared: Sampler | null = null;
+
+/**
+ * The sampler every scene shares (one worker, one cache).
+ */
+export const getSampler = (): Sampler => {
+  shared ??= createSampler();
+  return shared;
+};
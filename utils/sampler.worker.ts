@@ -0,0 +1,48 @@
+import { frameBuffers, runAssignRequest, runSampleRequest, targetBuffers, SamplerMessage, SamplerResponse } from './sampleRequest';
+
+// Typed loosely: the project compiles against the DOM lib, not the worker one
+const scope = self as unknown as {
+  fonts: FontFaceSet;
+  onmessage: ((event: MessageEvent<SamplerMessage>) => void) | null;
+  postMessage: (message: SamplerResponse, transfer: Transferable[]) => void;
+};
+
+// Samples wait for fonts sent before them
+let fontsReady = Promise.resolve();
+
+scope.onmessage = (event) => {
+  const message = event.data;
+
+  if (message.type === 'font') {
+    fontsReady = fontsReady.then(async () => {
+      try {
+        const face = new FontFace(message.family, message.data);
+        await face.load();
+        scope.fonts.add(face);
+      } catch {
+        // Unusable font files fall back like CSS does
+      }
+    });
+    return;
+  }
+
+  if (message.type === 'assign') {
+    try {
+      const frame = runAssignRequest(message.request);
+      scope.postMessage({ id: message.id, frame }, frameBuffers(frame));
+    } catch (err) {
+      scope.postMessage({ id: message.id, error: err instanceof Error ? err.message : 'Assignment failed' }, []);
+    }
+    return;
+  }
+
+  fontsReady.then(() => {
+    try {
+      const target = runSampleRequest(message.request);
+      if (message.request.kind === 'image') message.request.image.close();
+      scope.postMessage({ id: message.id, target }, targetBuffers(target));
+    } catch (err) {
+      scope.postMessage({ id: message.id, error: err instanceof Error ? err.message : 'Sampling failed' }, []);
+    }
+  });
+};
@@ -0,0 +1,315 @@
+import { AssignmentStrategy, EffectSettings, Look, MorphState, SceneConfig, ScenePreset, TextLayout } from '../types';
+import { DEFAULT_TEXT_LAYOUT } from './particleUtils';
+import { isShape } from './shapes';
+import { DEFAULT_PHYSICS } from './physics';
+import { DEFAULT_AUDIO } from './audio';
+import { DEFAULT_TRAILS, MAX_TRAIL_LENGTH } from './trails';
+import { DEFAULT_EFFECTS } from './effects';
+import { DEFAULT_MESH, PARTICLE_GEOMETRIES } from './meshParticles';
+import { COLOR_MODES } from './particleShader';
+import { limitGraphemes } from './text';
+import { DEFAULT_TRANSITION, EASING_NAMES } from './easing';
+import { DEFAULT_STAGGER, MAX_STAGGER, STAGGER_PATTERNS } from './stagger';
+
+const CURRENT_VERSION = 1;
+const PRESETS_KEY = 'particle-morph:presets';
+const LOOKS_KEY = 'particle-morph:looks';
+const HASH_PREFIX = '#scene=';
+
+export const MIN_PARTICLES = 1000;
+export const MAX_PARTICLES = 100000;
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  version: CURRENT_VERSION,
+  text: '',
+  isMorphing: false,
+  color: '#4cc9f0',
+  secondaryColor: '#4cc9f0',
+  colorMode: 'solid',
+  autoCycle: false,
+  particleCount: 8000,
+  seed: 1,
+  assignment: AssignmentStrategy.NEAREST,
+  restShape: MorphState.SPHERE,
+  morphTarget: MorphState.TEXT,
+  textLayout: DEFAULT_TEXT_LAYOUT,
+  extrusion: { enabled: false, depth: 1.5, bevel: 0.2 },
+  imageOptions: { threshold: 'alpha', invert: false },
+  physics: DEFAULT_PHYSICS,
+  audio: DEFAULT_AUDIO,
+  trails: DEFAULT_TRAILS,
+  effects: DEFAULT_EFFECTS,
+  mesh: DEFAULT_MESH,
+  transition: DEFAULT_TRANSITION,
+  stagger: DEFAULT_STAGGER,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const readNumber = (value: unknown, fallback: number, min: number, max: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+};
+
+const readBoolean = (value: unknown, fallback: boolean): boolean => {
+  return typeof value === 'boolean' ? value : fallback;
+};
+
+const readString = (value: unknown, fallback: string): string => {
+  return typeof value === 'string' ? value : fallback;
+};
+
+const readColor = (value: unknown, fallback: string): string => {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+};
+
+const readOption = <T extends string>(value: unknown, options: readonly T[], fallback: T): T => {
+  return options.includes(value as T) ? value as T : fallback;
+};
+
+const readLayout = (raw: unknown): TextLayout => {
+  const d = DEFAULT_TEXT_LAYOUT;
+  if (!isRecord(raw)) return d;
+  return {
+    fontFamily: readString(raw.fontFamily, d.fontFamily),
+    fontWeight: readNumber(raw.fontWeight, d.fontWeight, 100, 900),
+    italic: readBoolean(raw.italic, d.italic),
+    letterSpacing: readNumber(raw.letterSpacing, d.letterSpacing, -0.5, 2),
+    lineHeight: readNumber(raw.lineHeight, d.lineHeight, 0.5, 4),
+    align: readOption(raw.align, ['left', 'center', 'right'] as const, d.align),
+    maxWidth: readNumber(raw.maxWidth, d.maxWidth, 0, 100),
+  };
+};
+
+/**
+ * Validates an effect stack; anything missing or out of range falls back to
+ * the defaults.
+ */
+export const parseEffects = (json: unknown): EffectSettings => {
+  const d = DEFAULT_EFFECTS;
+  const effects = isRecord(json) ? json : {};
+  const section = (key: keyof EffectSettings) => isRecord(effects[key]) ? effects[key] as Record<string, unknown> : {};
+  const bloom = section('bloom');
+  const chromaticAberration = section('chromaticAberration');
+  const vignette = section('vignette');
+  const noise = section('noise');
+  const depthOfField = section('depthOfField');
+  const glitch = section('glitch');
+
+  return {
+    bloom: {
+      enabled: readBoolean(bloom.enabled, d.bloom.enabled),
+      threshold: readNumber(bloom.threshold, d.bloom.threshold, 0, 1),
+      smoothing: readNumber(bloom.smoothing, d.bloom.smoothing, 0, 1),
+      intensity: readNumber(bloom.intensity, d.bloom.intensity, 0, 10),
+    },
+    chromaticAberration: {
+      enabled: readBoolean(chromaticAberration.enabled, d.chromaticAberration.enabled),
+      offset: readNumber(chromaticAberration.offset, d.chromaticAberration.offset, 0, 0.05),
+    },
+    vignette: {
+      enabled: readBoolean(vignette.enabled, d.vignette.enabled),
+      offset: readNumber(vignette.offset, d.vignette.offset, 0, 1),
+      darkness: readNumber(vignette.darkness, d.vignette.darkness, 0, 1),
+    },
+    noise: {
+      enabled: readBoolean(noise.enabled, d.noise.enabled),
+      opacity: readNumber(noise.opacity, d.noise.opacity, 0, 1),
+    },
+    depthOfField: {
+      enabled: readBoolean(depthOfField.enabled, d.depthOfField.enabled),
+      range: readNumber(depthOfField.range, d.depthOfField.range, 0.1, 20),
+      bokeh: readNumber(depthOfField.bokeh, d.depthOfField.bokeh, 0, 10),
+    },
+    glitch: {
+      enabled: readBoolean(glitch.enabled, d.glitch.enabled),
+      strength: readNumber(glitch.strength, d.glitch.strength, 0, 1),
+      duration: readNumber(glitch.duration, d.glitch.duration, 0.05, 2),
+    },
+  };
+};
+
+/**
+ * Validates a stored or shared config. Fields are read one by one and fall
+ * back to the defaults, so links made before a setting existed still load;
+ * bump the version only for changes that reinterpret an existing field.
+ */
+export const parseSceneConfig = (json: unknown): SceneConfig => {
+  if (!isRecord(json)) {
+    throw new Error('Invalid scene: expected an object');
+  }
+  if (json.version !== undefined && (typeof json.version !== 'number' || json.version > CURRENT_VERSION)) {
+    throw new Error(`Unsupported scene version: ${String(json.version)}`);
+  }
+
+  const d = DEFAULT_SCENE_CONFIG;
+  const shapes = Object.values(MorphState).filter(isShape);
+  const extrusion = isRecord(json.extrusion) ? json.extrusion : {};
+  const imageOptions = isRecord(json.imageOptions) ? json.imageOptions : {};
+  const physics = isRecord(json.physics) ? json.physics : {};
+  const audio = isRecord(json.audio) ? json.audio : {};
+  const trails = isRecord(json.trails) ? json.trails : {};
+  const mesh = isRecord(json.mesh) ? json.mesh : {};
+  const transition = isRecord(json.transition) ? json.transition : {};
+  const stagger = isRecord(json.stagger) ? json.stagger : {};
+
+  return {
+    version: CURRENT_VERSION,
+    text: limitGraphemes(readString(json.text, d.text)),
+    isMorphing: readBoolean(json.isMorphing, d.isMorphing),
+    color: readColor(json.color, d.color),
+    // Older links had one color: keep them flat in that color
+    secondaryColor: readColor(json.secondaryColor, readColor(json.color, d.secondaryColor)),
+    colorMode: readOption(json.colorMode, COLOR_MODES, d.colorMode),
+    autoCycle: readBoolean(json.autoCycle, d.autoCycle),
+    particleCount: Math.round(readNumber(json.particleCount, d.particleCount, MIN_PARTICLES, MAX_PARTICLES)),
+    seed: Math.floor(readNumber(json.seed, d.seed, 0, 0xffffffff)),
+    assignment: readOption(json.assignment, Object.values(AssignmentStrategy), d.assignment),
+    restShape: readOption(json.restShape, shapes, d.restShape),
+    morphTarget: readOption(json.morphTarget, Object.values(MorphState), d.morphTarget),
+    textLayout: readLayout(json.textLayout),
+    extrusion: {
+      enabled: readBoolean(extrusion.enabled, d.extrusion.enabled),
+      depth: readNumber(extrusion.depth, d.extrusion.depth, 0.1, 10),
+      bevel: readNumber(extrusion.bevel, d.extrusion.bevel, 0, 5),
+    },
+    imageOptions: {
+      threshold: readOption(imageOptions.threshold, ['luminance', 'alpha'] as const, d.imageOptions.threshold),
+      invert: readBoolean(imageOptions.invert, d.imageOptions.invert),
+    },
+    physics: {
+      enabled: readBoolean(physics.enabled, d.physics.enabled),
+      stiffness: readNumber(physics.stiffness, d.physics.stiffness, 1, 500),
+      damping: readNumber(physics.damping, d.physics.damping, 0, 100),
+      forceRadius: readNumber(physics.forceRadius, d.physics.forceRadius, 0, 20),
+      pointer: readOption(physics.pointer, ['repel', 'attract', 'off'] as const, d.physics.pointer),
+    },
+    audio: {
+      sensitivity: readNumber(audio.sensitivity, d.audio.sensitivity, 0.1, 10),
+      displacement: readNumber(audio.displacement, d.audio.displacement, 0, 5),
+      pulse: readNumber(audio.pulse, d.audio.pulse, 0, 2),
+      bloom: readNumber(audio.bloom, d.audio.bloom, 0, 10),
+      color: readNumber(audio.color, d.audio.color, 0, 1),
+      beatAdvance: readBoolean(audio.beatAdvance, d.audio.beatAdvance),
+    },
+    trails: {
+      mode: readOption(trails.mode, ['off', 'lines', 'afterimage'] as const, d.trails.mode),
+      length: Math.round(readNumber(trails.length, d.trails.length, 2, MAX_TRAIL_LENGTH)),
+      persistence: readNumber(trails.persistence, d.trails.persistence, 0, 0.98),
+    },
+    effects: parseEffects(json.effects),
+    mesh: {
+      renderer: readOption(mesh.renderer, ['points', 'mesh'] as const, d.mesh.renderer),
+      geometry: readOption(mesh.geometry, PARTICLE_GEOMETRIES, d.mesh.geometry),
+      size: readNumber(mesh.size, d.mesh.size, 0.02, 0.5),
+      spin: readNumber(mesh.spin, d.mesh.spin, 0, 4),
+      shadows: readBoolean(mesh.shadows, d.mesh.shadows),
+    },
+    transition: {
+      duration: readNumber(transition.duration, d.transition.duration, 0.1, 10),
+      easing: readOption(transition.easing, EASING_NAMES, d.transition.easing),
+    },
+    stagger: {
+      pattern: readOption(stagger.pattern, STAGGER_PATTERNS, d.stagger.pattern),
+      amount: readNumber(stagger.amount, d.stagger.amount, 0, MAX_STAGGER),
+    },
+  };
+};
+
+// base64url over UTF-8, so any text survives the trip through a link
+const encodeBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0)));
+};
+
+export const configToHash = (config: SceneConfig): string => {
+  return HASH_PREFIX + encodeBase64Url(JSON.stringify(config));
+};
+
+/**
+ * Reads a config from a location hash; null when the hash holds none or it
+ * can't be decoded.
+ */
+export const configFromHash = (hash: string): SceneConfig | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    return parseSceneConfig(JSON.parse(decodeBase64Url(hash.slice(HASH_PREFIX.length))));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Validates a preset file or stored preset.
+ */
+export const parsePreset = (json: unknown): ScenePreset => {
+  if (!isRecord(json) || !isRecord(json.config)) {
+    throw new Error('Invalid preset: expected an object with a "config" object');
+  }
+  return {
+    name: readString(json.name, 'Untitled').trim() || 'Untitled',
+    config: parseSceneConfig(json.config),
+  };
+};
+
+export const serializePreset = (preset: ScenePreset): string => JSON.stringify(preset, null, 2);
+
+/**
+ * Validates a saved look.
+ */
+export const parseLook = (json: unknown): Look => {
+  if (!isRecord(json) || !isRecord(json.effects)) {
+    throw new Error('Invalid look: expected an object with an "effects" object');
+  }
+  return {
+    name: readString(json.name, 'Untitled').trim() || 'Untitled',
+    effects: parseEffects(json.effects),
+  };
+};
+
+// Stored lists drop entries that no longer parse
+const loadStored = <T>(key: string, parse: (json: unknown) => T): T[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((raw) => {
+      try {
+        return [parse(raw)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+const saveStored = (key: string, items: unknown[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch {
+    // Storage full or disabled (private mode); the list just won't persist
+  }
+};
+
+/**
+ * Presets saved in this browser. Entries that no longer parse are dropped.
+ */
+export const loadPresets = (): ScenePreset[] => loadStored(PRESETS_KEY, parsePreset);
+
+export const savePresets = (presets: ScenePreset[]) => saveStored(PRESETS_KEY, presets);
+
+/**
+ * Looks saved in this browser (the built-in ones aren't stored).
+ */
+export const loadLooks = (): Look[] => loadStored(LOOKS_KEY, parseLook);
+
+export const saveLooks = (looks: Look[]) => saveStored(LOOKS_KEY, looks);
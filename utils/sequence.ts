@@ -0,0 +1,114 @@
+import { EasingName, MorphState, Sequence, SequenceStep } from '../types';
+import { EASINGS } from './easing';
+import { isShape } from './shapes';
+import { limitGraphemes } from './text';
+
+const newStepId = () => Math.random().toString(36).slice(2, 10);
+
+export const createStep = (overrides: Partial<SequenceStep> = {}): SequenceStep => ({
+  id: newStepId(),
+  target: MorphState.TEXT,
+  text: 'HELLO',
+  color: '#4cc9f0',
+  hold: 2,
+  transition: 1.5,
+  easing: 'smoothStep',
+  ...overrides,
+});
+
+export const createSequence = (steps: SequenceStep[] = []): Sequence => ({
+  version: 1,
+  name: 'Untitled',
+  loop: false,
+  steps,
+});
+
+/**
+ * Seconds a step occupies on the timeline: its transition followed by its hold.
+ */
+export const stepDuration = (step: SequenceStep): number => step.transition + step.hold;
+
+export const sequenceDuration = (sequence: Sequence): number => {
+  return sequence.steps.reduce((total, step) => total + stepDuration(step), 0);
+};
+
+/**
+ * Index of the step playing at `time` seconds, or -1 for an empty sequence.
+ */
+export const stepIndexAt = (sequence: Sequence, time: number): number => {
+  let start = 0;
+  for (let i = 0; i < sequence.steps.length; i++) {
+    start += stepDuration(sequence.steps[i]);
+    if (time < start) return i;
+  }
+  return sequence.steps.length - 1;
+};
+
+/**
+ * Start time in seconds of step `index`.
+ */
+export const stepStart = (sequence: Sequence, index: number): number => {
+  return sequence.steps.slice(0, index).reduce((total, step) => total + stepDuration(step), 0);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+const readSeconds = (value: unknown, fallback: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const readColor = (value: unknown, fallback: string): string => {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+};
+
+/**
+ * Validates parsed JSON as a sequence. Missing optional fields fall back to
+ * defaults; anything structurally wrong throws with a readable message.
+ */
+export const parseSequence = (json: unknown): Sequence => {
+  if (!isRecord(json) || !Array.isArray(json.steps)) {
+    throw new Error('Invalid sequence: expected an object with a "steps" array');
+  }
+  if (json.version !== undefined && json.version !== 1) {
+    throw new Error(`Unsupported sequence version: ${String(json.version)}`);
+  }
+
+  const steps = json.steps.map((raw, i): SequenceStep => {
+    if (!isRecord(raw)) throw new Error(`Invalid sequence: step ${i + 1} is not an object`);
+
+    const target = raw.target ?? MorphState.TEXT;
+    const validTarget = target === MorphState.TEXT
+      || (Object.values(MorphState).includes(target as MorphState) && isShape(target as MorphState));
+    if (!validTarget) {
+      throw new Error(`Invalid sequence: step ${i + 1} has unknown target "${String(target)}"`);
+    }
+
+    const defaults = createStep();
+    return {
+      id: newStepId(),
+      target: target as MorphState,
+      text: typeof raw.text === 'string' ? limitGraphemes(raw.text) : '',
+      color: readColor(raw.color, defaults.color),
+      hold: readSeconds(raw.hold, defaults.hold),
+      transition: readSeconds(raw.transition, defaults.transition),
+      easing: typeof raw.easing === 'string' && raw.easing in EASINGS ? raw.easing as EasingName : defaults.easing,
+    };
+  });
+
+  return {
+    version: 1,
+    name: typeof json.name === 'string' ? json.name : 'Untitled',
+    loop: json.loop === true,
+    steps,
+  };
+};
+
+/**
+ * JSON for saving. Step ids are session-local and left out.
+ */
+export const serializeSequence = (sequence: Sequence): string => {
+  const steps = sequence.steps.map(({ id, ...step }) => step);
+  return JSON.stringify({ ...sequence, steps }, null, 2);
+};
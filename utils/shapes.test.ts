@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { SHAPE_GENERATORS, generateShapePositions } from './shapes';
+import { createRandom } from './random';
+import { ShapeKind } from '../types';
+
+const SIZE = 3.5;
+const shapes = Object.keys(SHAPE_GENERATORS) as ShapeKind[];
+
+describe.each(shapes)('%s', (shape) => {
+  it.each([0, 1, 2, 7, 1000])('generates %i finite points', (count) => {
+    const positions = generateShapePositions(shape, count, { size: SIZE, random: createRandom(1) });
+    expect(positions).toHaveLength(count * 3);
+    expect(positions.every(Number.isFinite)).toBe(true);
+  });
+
+  it('stays roughly within its size', () => {
+    const positions = generateShapePositions(shape, 2000, { size: SIZE, random: createRandom(1) });
+    for (let i = 0; i < positions.length; i += 3) {
+      expect(Math.hypot(positions[i], positions[i + 1], positions[i + 2])).toBeLessThan(SIZE * 2.5); // The wave sheet reaches furthest, at its corners
+    }
+  });
+
+  it('is deterministic for a seed', () => {
+    const a = generateShapePositions(shape, 500, { size: SIZE, random: createRandom(7, 'rest') });
+    const b = generateShapePositions(shape, 500, { size: SIZE, random: createRandom(7, 'rest') });
+    expect(a).toEqual(b);
+  });
+});
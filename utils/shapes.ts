@@ -0,0 +1,211 @@
+import { MorphState, ShapeGenerator, ShapeKind, ShapeParams } from '../types';
+import { generateSpherePositions } from './particleUtils';
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2;
+
+/**
+ * Torus lying in the view plane. Points follow a golden-ratio lattice over
+ * the (ring, tube) angles for an even spread without randomness.
+ */
+const generateTorusPositions: ShapeGenerator = (count, { size }) => {
+  const positions = new Float32Array(count * 3);
+  const ringRadius = size * 0.75;
+  const tubeRadius = size * 0.3;
+
+  for (let i = 0; i < count; i++) {
+    const u = (i / count) * Math.PI * 2;
+    const v = ((i * GOLDEN_RATIO) % 1) * Math.PI * 2;
+    const r = ringRadius + tubeRadius * Math.cos(v);
+
+    positions[i * 3] = Math.cos(u) * r;
+    positions[i * 3 + 1] = Math.sin(u) * r;
+    positions[i * 3 + 2] = Math.sin(v) * tubeRadius;
+  }
+  return positions;
+};
+
+/**
+ * Hollow cube: points spread uniformly over the six faces.
+ */
+const generateCubePositions: ShapeGenerator = (count, { size, random = Math.random }) => {
+  const positions = new Float32Array(count * 3);
+  const half = size * 0.7;
+
+  for (let i = 0; i < count; i++) {
+    const face = i % 6;
+    const axis = face >> 1;           // 0 = x, 1 = y, 2 = z
+    const sign = face & 1 ? 1 : -1;
+    const a = (random() * 2 - 1) * half;
+    const b = (random() * 2 - 1) * half;
+
+    const p = [0, 0, 0];
+    p[axis] = sign * half;
+    p[(axis + 1) % 3] = a;
+    p[(axis + 2) % 3] = b;
+
+    positions[i * 3] = p[0];
+    positions[i * 3 + 1] = p[1];
+    positions[i * 3 + 2] = p[2];
+  }
+  return positions;
+};
+
+/**
+ * Vertical coil with a little radial thickness so it reads as a tube.
+ */
+const generateHelixPositions: ShapeGenerator = (count, { size, random = Math.random }) => {
+  const positions = new Float32Array(count * 3);
+  const turns = 4;
+  const radius = size * 0.55;
+  const thickness = size * 0.08;
+
+  for (let i = 0; i < count; i++) {
+    const t = count > 1 ? i / (count - 1) : 0.5;
+    const angle = t * turns * Math.PI * 2;
+    const r = radius + (random() - 0.5) * thickness;
+
+    positions[i * 3] = Math.cos(angle) * r;
+    positions[i * 3 + 1] = (t * 2 - 1) * size;
+    positions[i * 3 + 2] = Math.sin(angle) * r + (random() - 0.5) * thickness;
+  }
+  return positions;
+};
+
+/**
+ * Spiral galaxy: a dense core with logarithmic arms, tilted towards the camera.
+ */
+const generateGalaxyPositions: ShapeGenerator = (count, { size, random = Math.random }) => {
+  const positions = new Float32Array(count * 3);
+  const arms = 3;
+  const spin = 1.2;
+  const radius = size * 1.4;
+  const tilt = 0.5;
+
+  for (let i = 0; i < count; i++) {
+    const r = Math.pow(random(), 1.5) * radius;
+    const armAngle = ((i % arms) / arms) * Math.PI * 2;
+    const angle = armAngle + (r / radius) * spin * Math.PI * 2;
+
+    // Scatter falls off cubically away from the arm's centre line
+    const scatter = () => Math.pow(random(), 3) * (random() < 0.5 ? -1 : 1) * size * 0.35;
+    const x = Math.cos(angle) * r + scatter();
+    const y = scatter() * 0.3;
+    const z = Math.sin(angle) * r + scatter();
+
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y * Math.cos(tilt) - z * Math.sin(tilt);
+    positions[i * 3 + 2] = y * Math.sin(tilt) + z * Math.cos(tilt);
+  }
+  return positions;
+};
+
+/**
+ * Double helix with base-pair rungs between the two strands.
+ */
+const generateDnaPositions: ShapeGenerator = (count, { size, random = Math.random }) => {
+  const positions = new Float32Array(count * 3);
+  const turns = 3;
+  const radius = size * 0.45;
+  const rungs = 36;
+
+  for (let i = 0; i < count; i++) {
+    let x: number, y: number, z: number;
+
+    if (i % 4 === 0) {
+      // Every fourth particle sits on a rung joining both strands at a fixed height
+      const rung = Math.floor(random() * rungs);
+      const t = (rung + 0.5) / rungs;
+      const angle = t * turns * Math.PI * 2;
+      const along = random() * 2 - 1;
+      x = Math.cos(angle) * radius * along;
+      y = (t * 2 - 1) * size;
+      z = Math.sin(angle) * radius * along;
+    } else {
+      const t = random();
+      const strand = i % 2 === 0 ? 0 : Math.PI;
+      const angle = t * turns * Math.PI * 2 + strand;
+      x = Math.cos(angle) * radius + (random() - 0.5) * 0.1;
+      y = (t * 2 - 1) * size;
+      z = Math.sin(angle) * radius + (random() - 0.5) * 0.1;
+    }
+
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = z;
+  }
+  return positions;
+};
+
+/**
+ * Filled heart from the classic parametric curve, puffed out in z toward
+ * the middle so it has volume when orbited.
+ */
+const generateHeartPositions: ShapeGenerator = (count, { size, random = Math.random }) => {
+  const positions = new Float32Array(count * 3);
+  const scale = size / 16;
+
+  for (let i = 0; i < count; i++) {
+    const t = random() * Math.PI * 2;
+    // Half the particles on the outline, the rest filling the interior
+    const fill = i % 2 === 0 ? 1 : Math.sqrt(random());
+
+    const hx = 16 * Math.pow(Math.sin(t), 3);
+    const hy = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+    const depth = Math.sqrt(Math.max(0, 1 - fill * fill)) * size * 0.35;
+
+    positions[i * 3] = hx * fill * scale;
+    positions[i * 3 + 1] = (hy * fill + 3) * scale;
+    positions[i * 3 + 2] = (random() * 2 - 1) * depth;
+  }
+  return positions;
+};
+
+/**
+ * Horizontal sheet rippled by a diagonal sine wave.
+ */
+const generateWavePositions: ShapeGenerator = (count, { size }) => {
+  const positions = new Float32Array(count * 3);
+  const side = Math.max(1, Math.ceil(Math.sqrt(count)));
+  const extent = size * 1.5;
+  const amplitude = size * 0.25;
+  const frequency = 1.5 / size;
+
+  for (let i = 0; i < count; i++) {
+    const u = side > 1 ? (i % side) / (side - 1) : 0.5;
+    const v = side > 1 ? Math.floor(i / side) / (side - 1) : 0.5;
+    const x = (u * 2 - 1) * extent;
+    const z = (v * 2 - 1) * extent;
+
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = Math.sin((x + z) * frequency * Math.PI) * amplitude;
+    positions[i * 3 + 2] = z;
+  }
+  return positions;
+};
+
+/**
+ * Registry of base shapes. Each generator returns `count` xyz triples
+ * centred on the origin, roughly `size` units in radius.
+ */
+export const SHAPE_GENERATORS: Record<ShapeKind, ShapeGenerator> = {
+  [MorphState.SPHERE]: (count, { size }) => generateSpherePositions(count, size),
+  [MorphState.TORUS]: generateTorusPositions,
+  [MorphState.CUBE]: generateCubePositions,
+  [MorphState.HELIX]: generateHelixPositions,
+  [MorphState.GALAXY]: generateGalaxyPositions,
+  [MorphState.DNA]: generateDnaPositions,
+  [MorphState.HEART]: generateHeartPositions,
+  [MorphState.WAVE]: generateWavePositions,
+};
+
+export const isShape = (state: MorphState): state is ShapeKind => {
+  return state !== MorphState.TEXT && state !== MorphState.IMAGE && state !== MorphState.POINTS;
+};
+
+export const generateShapePositions = (
+  shape: ShapeKind,
+  count: number,
+  params: ShapeParams
+): Float32Array => {
+  return SHAPE_GENERATORS[shape](count, params);
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { particleMorphs, staggerDelays } from './stagger';
+import { EASINGS, EASING_NAMES } from './easing';
+import { createRandom } from './random';
+import { MorphFrame } from '../types';
+
+// Four particles in a row, x = 0..3; the outer two on the outline
+const frame = (order?: number[]): MorphFrame => ({
+  positions: Float32Array.from([0, 0, 0, 1, 0, 0, 2, 0, 0, 3, 0, 0]),
+  colors: new Float32Array(16),
+  edges: Float32Array.from([1, 0, 0, 1]),
+  ...(order ? { order: Float32Array.from(order) } : {}),
+});
+
+describe('staggerDelays', () => {
+  it('sweeps from left to right', () => {
+    expect(Array.from(staggerDelays('sweep', frame(), createRandom(1)))).toEqual([0, 1 / 3, 2 / 3, 1].map(Math.fround));
+  });
+
+  it('starts from the center in radial mode', () => {
+    const delays = staggerDelays('radial', frame(), createRandom(1));
+    expect(delays[1]).toBeLessThan(delays[0]);
+    expect(delays[0]).toBeCloseTo(1);
+    expect(delays[3]).toBeCloseTo(1);
+  });
+
+  it('sends the outline before the interior', () => {
+    const delays = staggerDelays('edges', frame(), createRandom(1));
+    expect(Math.max(delays[0], delays[3])).toBeLessThan(0.5);
+    expect(Math.min(delays[1], delays[2])).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('types whole characters in reading order', () => {
+    // Right-to-left: the rightmost particles belong to the first character
+    const delays = staggerDelays('typewriter', frame([1.8, 1.2, 0.7, 0.1]), createRandom(1));
+    expect(Array.from(delays)).toEqual([1, 1, 0, 0]);
+  });
+
+  it('draws each outline ahead of its fill when handwriting', () => {
+    const delays = staggerDelays('handwriting', frame([0.2, 0.4, 1.2, 1.4]), createRandom(1));
+    expect(delays[0]).toBeLessThan(delays[1]);
+    expect(delays[3]).toBeLessThan(delays[2]);
+  });
+
+  it('sweeps targets without a reading order', () => {
+    expect(staggerDelays('typewriter', frame(), createRandom(1))).toEqual(staggerDelays('sweep', frame(), createRandom(1)));
+  });
+
+  it('starts everything at once without a pattern', () => {
+    expect(Array.from(staggerDelays('none', frame(), createRandom(1)))).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('particleMorphs', () => {
+  it('moves each particle within its own window', () => {
+    const delays = Float32Array.from([0, 0.5, 1]);
+    const morphs = particleMorphs(delays, 0.5, 0.5, EASINGS.linear, new Float32Array(3));
+    expect(Array.from(morphs)).toEqual([1, 0.5, 0]);
+  });
+});
+
+describe('EASINGS', () => {
+  it.each(EASING_NAMES)('%s runs from 0 to 1', (name) => {
+    expect(EASINGS[name](0)).toBeCloseTo(0, 6);
+    expect(EASINGS[name](1)).toBeCloseTo(1, 6);
+  });
+
+  it('overshoots with back and elastic curves only', () => {
+    const peak = (name: keyof typeof EASINGS) => Math.max(...Array.from({ length: 101 }, (_, i) => EASINGS[name](i / 100)));
+    expect(peak('easeOutBack')).toBeGreaterThan(1.05);
+    expect(peak('easeOutElastic')).toBeGreaterThan(1.05);
+    expect(peak('easeOutBounce')).toBeLessThanOrEqual(1);
+    expect(peak('easeOutCubic')).toBeLessThanOrEqual(1);
+  });
+});
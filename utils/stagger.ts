@@ -0,0 +1,111 @@
+import { MorphFrame, Random, StaggerPattern, StaggerSettings } from '../types';
+
+export const DEFAULT_STAGGER: StaggerSettings = {
+  pattern: 'none',
+  amount: 0.5,
+};
+
+// Every particle keeps at least a tenth of the transition for its own move
+export const MAX_STAGGER = 0.9;
+
+// Handwriting: how far behind its outline a letter's fill starts
+const FILL_LAG = 0.15;
+
+/** Stagger patterns in the order the settings list them. */
+export const STAGGER_PATTERNS: readonly StaggerPattern[] = ['none', 'sweep', 'radial', 'random', 'edges', 'typewriter', 'handwriting'];
+
+// Position along x across the layout, 0 at its left edge and 1 at its right
+const sweep = (positions: Float32Array, count: number): Float32Array => {
+  let minX = Infinity, maxX = -Infinity;
+  for (let i = 0; i < count; i++) {
+    minX = Math.min(minX, positions[i * 3]);
+    maxX = Math.max(maxX, positions[i * 3]);
+  }
+  const width = Math.max(maxX - minX, 1e-6);
+  const out = new Float32Array(count);
+  for (let i = 0; i < count; i++) out[i] = (positions[i * 3] - minX) / width;
+  return out;
+};
+
+const radial = (positions: Float32Array, count: number): Float32Array => {
+  let cx = 0, cy = 0, cz = 0;
+  for (let i = 0; i < count; i++) {
+    cx += positions[i * 3];
+    cy += positions[i * 3 + 1];
+    cz += positions[i * 3 + 2];
+  }
+  cx /= Math.max(count, 1);
+  cy /= Math.max(count, 1);
+  cz /= Math.max(count, 1);
+
+  const out = new Float32Array(count);
+  let farthest = 1e-6;
+  for (let i = 0; i < count; i++) {
+    out[i] = Math.hypot(positions[i * 3] - cx, positions[i * 3 + 1] - cy, positions[i * 3 + 2] - cz);
+    farthest = Math.max(farthest, out[i]);
+  }
+  for (let i = 0; i < count; i++) out[i] /= farthest;
+  return out;
+};
+
+// Reading order scaled to 0-1; whole characters only when `perCharacter`
+const reading = (order: Float32Array, count: number, perCharacter: boolean): Float32Array => {
+  let last = 0;
+  for (let i = 0; i < count; i++) last = Math.max(last, Math.floor(order[i]));
+  const out = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    out[i] = perCharacter ? Math.floor(order[i]) / Math.max(last, 1) : Math.min(order[i] / (last + 1), 1);
+  }
+  return out;
+};
+
+/**
+ * When each particle of a layout sets off, 0 (first) to 1 (last), in
+ * particle order. The shader turns these into start times with the stagger
+ * amount, so changing the amount needs no new delays.
+ */
+export const staggerDelays = (pattern: StaggerPattern, frame: MorphFrame, random: Random): Float32Array => {
+  const count = frame.edges.length;
+  const hasOrder = frame.order !== undefined && frame.order.length === count;
+
+  switch (pattern) {
+    case 'sweep':
+      return sweep(frame.positions, count);
+    case 'radial':
+      return radial(frame.positions, count);
+    case 'random':
+      return Float32Array.from({ length: count }, () => random());
+    case 'edges':
+      // Outline in the first half, interior in the second, each in random order
+      return Float32Array.from({ length: count }, (_, i) => (frame.edges[i] > 0.5 ? 0 : 0.5) + random() * 0.5);
+    case 'typewriter':
+      return hasOrder ? reading(frame.order!, count, true) : sweep(frame.positions, count);
+    case 'handwriting': {
+      const path = hasOrder ? reading(frame.order!, count, false) : sweep(frame.positions, count);
+      for (let i = 0; i < count; i++) {
+        path[i] = path[i] * (1 - FILL_LAG) + (frame.edges[i] > 0.5 ? 0 : FILL_LAG);
+      }
+      return path;
+    }
+    default:
+      return new Float32Array(count);
+  }
+};
+
+/**
+ * Each particle's eased morph at `progress`, as the shader works it out
+ * (`particleMorph`), for code that places particles on the CPU.
+ */
+export const particleMorphs = (
+  delays: Float32Array,
+  progress: number,
+  amount: number,
+  easing: (t: number) => number,
+  out: Float32Array
+): Float32Array => {
+  const span = Math.max(1 - amount, 1e-3);
+  for (let i = 0; i < delays.length; i++) {
+    out[i] = easing(Math.min(Math.max((progress - delays[i] * amount) / span, 0), 1));
+  }
+  return out;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { hasColorGlyphs, limitGraphemes, lineBreakUnits, splitGraphemes, textDirection } from './text';
+
+describe('graphemes', () => {
+  it('keeps emoji sequences, flags and combining marks whole', () => {
+    expect(splitGraphemes('👩‍👩‍👧‍👦🇯🇵é👍🏽')).toEqual(['👩‍👩‍👧‍👦', '🇯🇵', 'é', '👍🏽']);
+  });
+
+  it('limits by grapheme rather than UTF-16 unit', () => {
+    const family = '👩‍👩‍👧‍👦';
+    expect(limitGraphemes(family.repeat(3), 2)).toBe(family.repeat(2));
+    expect(limitGraphemes('日本語', 200)).toBe('日本語');
+    expect(limitGraphemes('abcdef', 3)).toBe('abc');
+  });
+});
+
+describe('textDirection', () => {
+  it('follows the first letter', () => {
+    expect(textDirection('Hello')).toBe('ltr');
+    expect(textDirection('שלום world')).toBe('rtl');
+    expect(textDirection('123 مرحبا')).toBe('rtl');
+    expect(textDirection('日本語')).toBe('ltr');
+  });
+
+  it('falls back without letters', () => {
+    expect(textDirection('123 🙂', 'rtl')).toBe('rtl');
+    expect(textDirection('!!')).toBe('ltr');
+  });
+});
+
+describe('lineBreakUnits', () => {
+  it('breaks at spaces, keeping the space with the next word', () => {
+    expect(lineBreakUnits('Hello, big world')).toEqual(['Hello,', ' big', ' world']);
+  });
+
+  it('breaks between words of scripts without spaces', () => {
+    const units = lineBreakUnits('日本語のテキスト');
+    expect(units.length).toBeGreaterThan(1);
+    expect(units.join('')).toBe('日本語のテキスト');
+  });
+
+  it('keeps punctuation with the word before it', () => {
+    for (const unit of lineBreakUnits('你好，世界。')) expect(unit).not.toMatch(/^[，。]/);
+  });
+});
+
+describe('hasColorGlyphs', () => {
+  it('spots emoji and flags', () => {
+    expect(hasColorGlyphs('Hi 🙂')).toBe(true);
+    expect(hasColorGlyphs('🇯🇵')).toBe(true);
+    expect(hasColorGlyphs('Hello')).toBe(false);
+  });
+});
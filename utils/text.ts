@@ -0,0 +1,81 @@
+// Longest text a morph takes, in grapheme clusters (what a reader counts as
+// characters: an emoji with modifiers or a letter with combining marks is one)
+export const MAX_TEXT_LENGTH = 200;
+
+// First letter of a right-to-left script decides a line's direction
+const RTL_LETTER = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}]/u;
+const STRONG_LETTER = /\p{L}/u;
+// Scripts written without spaces between words
+const NO_SPACE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+// Characters that fonts usually draw as color glyphs
+const PICTOGRAPHIC = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+const graphemeSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+const wordSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'word' })
+  : null;
+
+/**
+ * Splits a paragraph into the pieces a line may break between, each with the
+ * whitespace before it. Scripts written without spaces (CJK, Thai...) also
+ * break between words; punctuation stays on the word before it.
+ */
+export const lineBreakUnits = (paragraph: string): string[] => {
+  if (!wordSegmenter) return paragraph.match(/\s*\S+/g) ?? [];
+
+  const units: string[] = [];
+  let unit = '';
+  let afterSpace = false;
+  for (const { segment, isWordLike } of wordSegmenter.segment(paragraph)) {
+    const isSpace = segment.trim() === '';
+    const breaks = isSpace
+      ? !afterSpace
+      : isWordLike && !afterSpace && (NO_SPACE_SCRIPT.test(segment) || NO_SPACE_SCRIPT.test(unit));
+    if (breaks && unit.trim()) {
+      units.push(unit);
+      unit = '';
+    }
+    unit += segment;
+    afterSpace = isSpace;
+  }
+  if (unit.trim()) units.push(unit);
+  return units;
+};
+
+/**
+ * Splits text into grapheme clusters. Without Intl.Segmenter, falls back to
+ * code points (which still keeps surrogate pairs together).
+ */
+export const splitGraphemes = (text: string): string[] => {
+  if (!graphemeSegmenter) return Array.from(text);
+  return Array.from(graphemeSegmenter.segment(text), (segment) => segment.segment);
+};
+
+/**
+ * Cuts text to at most `max` grapheme clusters, never through the middle of one.
+ */
+export const limitGraphemes = (text: string, max = MAX_TEXT_LENGTH): string => {
+  // Every cluster is at least one UTF-16 unit, so short text needs no segmenting
+  if (text.length <= max) return text;
+  return splitGraphemes(text).slice(0, max).join('');
+};
+
+/**
+ * 'rtl' when the first strong (letter) character belongs to a right-to-left
+ * script, 'ltr' for any other letter, `fallback` for text without letters
+ * (digits, punctuation, emoji).
+ */
+export const textDirection = (text: string, fallback: 'ltr' | 'rtl' = 'ltr'): 'ltr' | 'rtl' => {
+  for (const char of text) {
+    if (STRONG_LETTER.test(char)) return RTL_LETTER.test(char) ? 'rtl' : 'ltr';
+  }
+  return fallback;
+};
+
+/**
+ * Whether the text contains emoji or flags, which render in their own colors.
+ */
+export const hasColorGlyphs = (text: string): boolean => PICTOGRAPHIC.test(text);
@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+import { TrailSettings } from '../types';
+
+export const MAX_TRAIL_LENGTH = 16;
+// Time between recorded steps, so trail length doesn't depend on frame rate
+const TRAIL_INTERVAL = 1 / 30;
+
+export const DEFAULT_TRAILS: TrailSettings = {
+  mode: 'off',
+  length: 8,
+  persistence: 0.85,
+};
+
+/**
+ * Recent morph states, newest first: step 0 is the live frame. Each state is
+ * (morph progress before easing, rest blend, target blend, rest scale) plus
+ * the object's world matrix, which is all the trail shader needs to place a
+ * particle back then.
+ */
+export interface TrailHistory {
+  states: THREE.Vector4[];
+  matrices: THREE.Matrix4[];
+  sinceRecord: number;
+}
+
+export const createTrailHistory = (): TrailHistory => ({
+  states: Array.from({ length: MAX_TRAIL_LENGTH }, () => new THREE.Vector4()),
+  matrices: Array.from({ length: MAX_TRAIL_LENGTH }, () => new THREE.Matrix4()),
+  sinceRecord: 0,
+});
+
+/**
+ * Sets every step to the given state, e.g. after the layouts were swapped
+ * and older states no longer describe where particles were.
+ */
+export const resetTrail = (history: TrailHistory, state: THREE.Vector4, matrix: THREE.Matrix4) => {
+  history.states.forEach((s) => s.copy(state));
+  history.matrices.forEach((m) => m.copy(matrix));
+  history.sinceRecord = 0;
+};
+
+/**
+ * Stores the live state at step 0 and, every TRAIL_INTERVAL, moves the
+ * previous live state back to step 1 (dropping the oldest).
+ */
+export const recordTrail = (history: TrailHistory, state: THREE.Vector4, matrix: THREE.Matrix4, delta: number) => {
+  history.sinceRecord += delta;
+  if (history.sinceRecord >= TRAIL_INTERVAL) {
+    history.sinceRecord %= TRAIL_INTERVAL;
+    // Shifted in place: the shader uniforms hold these same arrays
+    history.states.splice(1, 0, history.states.pop()!.copy(history.states[0]));
+    history.matrices.splice(1, 0, history.matrices.pop()!.copy(history.matrices[0]));
+  }
+  history.states[0].copy(state);
+  history.matrices[0].copy(matrix);
+};
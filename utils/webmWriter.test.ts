@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { writeWebm, WebmChunk } from './webmWriter';
+
+// jsdom's Blob has no arrayBuffer()
+const bytesOf = (blob: Blob) => new Promise<Uint8Array>((resolve) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.readAsArrayBuffer(blob);
+});
+
+// EBML variable-length integer at `offset`: its value and length in bytes
+const vint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  let length = 1;
+  while (!(bytes[offset] & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+};
+
+interface Element { id: number; start: number; body: number; end: number }
+
+// Child elements of the body spanning [from, to)
+const children = (bytes: Uint8Array, from: number, to: number): Element[] => {
+  const list: Element[] = [];
+  for (let offset = from; offset < to;) {
+    const id = vint(bytes, offset, true);
+    const size = vint(bytes, offset + id.length, false);
+    const body = offset + id.length + size.length;
+    list.push({ id: id.value, start: offset, body, end: body + size.value });
+    offset = body + size.value;
+  }
+  return list;
+};
+
+const uintAt = (bytes: Uint8Array, element: Element) => {
+  let value = 0;
+  for (let i = element.body; i < element.end; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+const find = (list: Element[], id: number) => list.find((element) => element.id === id)!;
+
+describe('writeWebm', () => {
+  it('indexes every keyframe cluster in cues the seek head points to', async () => {
+    const chunks: WebmChunk[] = Array.from({ length: 6 }, (_, i) => ({
+      data: new Uint8Array([i, i, i]),
+      timestamp: i * 500_000,
+      isKey: i % 3 === 0,
+    }));
+    const bytes = await bytesOf(writeWebm(chunks, { codecId: 'V_VP9', width: 4, height: 4 }, 3));
+
+    const [, segment] = children(bytes, 0, bytes.length);
+    const parts = children(bytes, segment.body, segment.end);
+    const at = (position: number) => parts.find((element) => element.start === segment.body + position);
+
+    const seek = children(bytes, find(parts, 0x114d9b74).body, find(parts, 0x114d9b74).end)[0];
+    const cuesPosition = uintAt(bytes, find(children(bytes, seek.body, seek.end), 0x53ac));
+    const cues = at(cuesPosition)!;
+    expect(cues.id).toBe(0x1c53bb6b);
+
+    const points = children(bytes, cues.body, cues.end);
+    expect(points.map((point) => uintAt(bytes, find(children(bytes, point.body, point.end), 0xb3)))).toEqual([0, 1500]);
+    for (const point of points) {
+      const positions = find(children(bytes, point.body, point.end), 0xb7);
+      const cluster = at(uintAt(bytes, find(children(bytes, positions.body, positions.end), 0xf1)));
+      expect(cluster?.id).toBe(0x1f43b675);
+    }
+  });
+});
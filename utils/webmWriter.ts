@@ -0,0 +1,161 @@
+/**
+ * Minimal WebM (Matroska) muxer for a single video track of WebCodecs
+ * chunks. Everything is buffered and written in one go, so every element
+ * carries its exact size; a cues index (found through the seek head) lists
+ * each cluster that starts on a keyframe, so players can seek.
+ */
+
+export interface WebmChunk {
+  data: Uint8Array;
+  timestamp: number; // Microseconds
+  isKey: boolean;
+}
+
+interface WebmTrack {
+  codecId: string; // e.g. V_VP9
+  width: number;
+  height: number;
+}
+
+type EbmlNode = Uint8Array;
+
+const TIMECODE_SCALE = 1_000_000; // ns per timecode unit: timecodes are in ms
+const MAX_CLUSTER_SPAN = 32_000;  // SimpleBlock offsets are int16 ms
+
+const idBytes = (id: number): number[] => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+// Sizes are always written as 8-byte vints; simple and large enough for anything
+const sizeBytes = (size: number): number[] => {
+  const bytes = [0x01];
+  for (let i = 6; i >= 0; i--) bytes.push(Math.floor(size / 2 ** (i * 8)) & 0xff);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const element = (id: number, payload: Uint8Array | EbmlNode[]): EbmlNode => {
+  const body = payload instanceof Uint8Array ? payload : concat(payload);
+  return concat([new Uint8Array([...idBytes(id), ...sizeBytes(body.length)]), body]);
+};
+
+const uint = (id: number, value: number): EbmlNode => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return element(id, new Uint8Array(bytes.length ? bytes : [0]));
+};
+
+// Always 8 bytes, for values written before the layout they point into is known
+const fixedUint = (id: number, value: number): EbmlNode => {
+  const bytes = new Uint8Array(8);
+  for (let i = 7, v = value; i >= 0; i--, v = Math.floor(v / 256)) bytes[i] = v & 0xff;
+  return element(id, bytes);
+};
+
+const float = (id: number, value: number): EbmlNode => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const string = (id: number, value: string): EbmlNode => element(id, new TextEncoder().encode(value));
+
+const simpleBlock = (chunk: WebmChunk, clusterTime: number): EbmlNode => {
+  const offset = Math.round(chunk.timestamp / 1000) - clusterTime;
+  const header = new Uint8Array([0x81, (offset >> 8) & 0xff, offset & 0xff, chunk.isKey ? 0x80 : 0x00]);
+  return element(0xa3, concat([header, chunk.data]));
+};
+
+/**
+ * Builds the WebM file. `duration` is in seconds. A new cluster starts at
+ * every keyframe, so keyframe spacing should stay under ~30 s.
+ */
+export const writeWebm = (chunks: WebmChunk[], track: WebmTrack, duration: number): Blob => {
+  const header = element(0x1a45dfa3, [
+    uint(0x4286, 1),      // EBMLVersion
+    uint(0x42f7, 1),      // EBMLReadVersion
+    uint(0x42f2, 4),      // EBMLMaxIDLength
+    uint(0x42f3, 8),      // EBMLMaxSizeLength
+    string(0x4282, 'webm'),
+    uint(0x4287, 2),      // DocTypeVersion
+    uint(0x4285, 2),      // DocTypeReadVersion
+  ]);
+
+  const info = element(0x1549a966, [
+    uint(0x2ad7b1, TIMECODE_SCALE),
+    string(0x4d80, 'particle-morph-3d'), // MuxingApp
+    string(0x5741, 'particle-morph-3d'), // WritingApp
+    float(0x4489, duration * 1000),
+  ]);
+
+  const tracks = element(0x1654ae6b, [
+    element(0xae, [
+      uint(0xd7, 1),                  // TrackNumber
+      uint(0x73c5, 1),                // TrackUID
+      uint(0x9c, 0),                  // FlagLacing
+      string(0x86, track.codecId),
+      uint(0x83, 1),                  // TrackType: video
+      element(0xe0, [uint(0xb0, track.width), uint(0xba, track.height)]),
+    ]),
+  ]);
+
+  const clusters: { node: EbmlNode; time: number; isKey: boolean }[] = [];
+  let blocks: EbmlNode[] = [];
+  let clusterTime = 0;
+  let clusterIsKey = false;
+
+  const flush = () => {
+    if (blocks.length) clusters.push({ node: element(0x1f43b675, [uint(0xe7, clusterTime), ...blocks]), time: clusterTime, isKey: clusterIsKey });
+    blocks = [];
+  };
+
+  for (const chunk of chunks) {
+    const time = Math.round(chunk.timestamp / 1000);
+    if (blocks.length === 0 || chunk.isKey || time - clusterTime > MAX_CLUSTER_SPAN) {
+      flush();
+      clusterTime = time;
+      clusterIsKey = chunk.isKey;
+    }
+    blocks.push(simpleBlock(chunk, clusterTime));
+  }
+  flush();
+
+  // Positions count from the start of the segment's body; the seek head has
+  // a fixed size, so it can be measured before what it points at is placed
+  const seekHead = (cuesPosition: number) => element(0x114d9b74, [
+    element(0x4dbb, [                         // Seek
+      element(0x53ab, new Uint8Array(idBytes(0x1c53bb6b))), // SeekID: Cues
+      fixedUint(0x53ac, cuesPosition),        // SeekPosition
+    ]),
+  ]);
+  let position = seekHead(0).length + info.length + tracks.length;
+  const cuePoints: EbmlNode[] = [];
+  for (const cluster of clusters) {
+    if (cluster.isKey) {
+      cuePoints.push(element(0xbb, [          // CuePoint
+        uint(0xb3, cluster.time),             // CueTime
+        element(0xb7, [uint(0xf7, 1), uint(0xf1, position)]), // CueTrackPositions: track, cluster
+      ]));
+    }
+    position += cluster.node.length;
+  }
+  const body = [info, tracks, ...clusters.map((cluster) => cluster.node)];
+
+  // Cues must hold at least one point; without a keyframe there is nothing to seek to
+  const segment = element(0x18538067, cuePoints.length > 0
+    ? [seekHead(position), ...body, element(0x1c53bb6b, cuePoints)]
+    : body);
+  return new Blob([header, segment], { type: 'video/webm' });
+};
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { writeZip } from './zipWriter';
+
+describe('writeZip', () => {
+  it('refuses archives that would need ZIP64', () => {
+    const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}`, data: new Uint8Array(0) }));
+    expect(() => writeZip(entries)).toThrow('Too many frames for a ZIP file');
+  });
+});
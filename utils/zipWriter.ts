@@ -0,0 +1,89 @@
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01, the earliest date a ZIP header can hold
+const DOS_EPOCH = (1 << 5) | 1;
+// Past these an archive needs ZIP64 records, which this writer doesn't produce
+const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_BYTES = 0xffffffff;
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Packs files into an uncompressed (stored) ZIP archive. PNGs are already
+ * deflated, so compressing them again would only cost time. Throws for
+ * archives that would need ZIP64 (over 4 GB or 65,535 files).
+ */
+export const writeZip = (entries: ZipEntry[]): Blob => {
+  const names = entries.map((entry) => new TextEncoder().encode(entry.name));
+  const total = entries.reduce((sum, entry, i) => sum + 30 + 46 + names[i].length * 2 + entry.data.length, 22);
+  if (entries.length > MAX_ZIP_ENTRIES || total > MAX_ZIP_BYTES) {
+    throw new Error('Too many frames for a ZIP file (over 4 GB or 65,535 files); export a shorter or smaller clip');
+  }
+
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [i, entry] of entries.entries()) {
+    const name = names[i];
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // Local file header
+    lv.setUint16(4, 20, true);         // Version needed
+    lv.setUint16(8, 0, true);          // Method: stored
+    lv.setUint16(12, DOS_EPOCH, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // Central directory header
+    cv.setUint16(4, 20, true);         // Version made by
+    cv.setUint16(6, 20, true);         // Version needed
+    cv.setUint16(14, DOS_EPOCH, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    directory.push(central);
+    offset += local.length + size;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // End of central directory
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
@@ -2,6 +2,31 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Left to the host app in the library build so it shares one React and three
+const PEER_DEPENDENCIES = [/^react($|\/)/, /^react-dom($|\/)/, /^three($|\/)/, /^@react-three\//, /^postprocessing($|\/)/];
+
+/**
+ * `--mode lib`: ES module for React apps (peer dependencies external).
+ * `--mode element`: self-contained ES module that registers <particle-morph>.
+ */
+const libraryBuild = (mode: string) => {
+  if (mode !== 'lib' && mode !== 'element') return undefined;
+  const isElement = mode === 'element';
+  return {
+    outDir: 'dist-lib',
+    emptyOutDir: !isElement,
+    copyPublicDir: false,
+    lib: {
+      entry: path.resolve(__dirname, isElement ? 'lib/element.ts' : 'lib/index.ts'),
+      formats: ['es' as const],
+      fileName: isElement ? 'particle-morph-element' : 'particle-morph',
+    },
+    rollupOptions: {
+      external: isElement ? [] : PEER_DEPENDENCIES,
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -12,8 +37,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // The standalone element bundles React, which reads this at runtime
+        ...(mode === 'element' && { 'process.env.NODE_ENV': JSON.stringify('production') })
       },
+      build: libraryBuild(mode),
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),